@@ -7,6 +7,8 @@ import * as esbuild from "esbuild";
 import { Eta } from "eta";
 import * as yaml from "yaml";
 
+import { CONFIG_FILE_INPUTS, EXCLUDED_INPUTS } from "../src/config-file.mts";
+
 const projectRoot = fileURLToPath(new URL("..", import.meta.url));
 chdir(projectRoot);
 
@@ -31,6 +33,25 @@ const actionMetadata = yaml.parse(
     encoding: "utf8",
   }),
 );
+// The config file schema lists the input parameters by hand, so make sure it
+// keeps up with action.yml.
+const inputNames = Object.keys(actionMetadata.inputs).filter(
+  (name) => !EXCLUDED_INPUTS.includes(name),
+);
+const missingInputs = inputNames.filter(
+  (name) => !CONFIG_FILE_INPUTS.includes(name),
+);
+const unknownInputs = CONFIG_FILE_INPUTS.filter(
+  (name) => !inputNames.includes(name),
+);
+if (missingInputs.length > 0 || unknownInputs.length > 0) {
+  throw new Error(
+    "the config file schema doesn't match action.yml " +
+      `(missing: ${missingInputs.join(", ") || "none"}; ` +
+      `unknown: ${unknownInputs.join(", ") || "none"})`,
+  );
+}
+
 const eta = new Eta();
 const renderedReadme = eta.renderString(readmeTemplate, {
   meta: actionMetadata,
@@ -38,29 +59,42 @@ const renderedReadme = eta.renderString(readmeTemplate, {
 });
 await writeFile(path.join(distDir, "README.md"), renderedReadme);
 
-await esbuild.build({
-  absWorkingDir: projectRoot,
-  entryPoints: [path.join(srcDir, "main.mts")],
-  bundle: true,
-  outfile: path.join(distDir, "action.mjs"),
-  tsconfig: path.join(srcDir, "tsconfig.json"),
-  format: "esm",
-  target: "es2020",
-  platform: "node",
-  treeShaking: true,
-  banner: {
-    // https://github.com/evanw/esbuild/issues/1921#issuecomment-1439609735
-    js: `
-      const { require, __filename, __dirname } = await (async () => {
-        const { createRequire } = await import("node:module");
-        const { fileURLToPath } = await import("node:url");
+// https://github.com/evanw/esbuild/issues/1921#issuecomment-1439609735
+const requireShim = `
+  const { require, __filename, __dirname } = await (async () => {
+    const { createRequire } = await import("node:module");
+    const { fileURLToPath } = await import("node:url");
+
+    return {
+      require: createRequire(import.meta.url),
+      __filename: fileURLToPath(import.meta.url),
+      __dirname: fileURLToPath(new URL(".", import.meta.url)),
+    };
+  })();
+`;
 
-        return {
-          require: createRequire(import.meta.url),
-          __filename: fileURLToPath(import.meta.url),
-          __dirname: fileURLToPath(new URL(".", import.meta.url)),
-        };
-      })();
-    `,
+const entryPoints = [
+  { source: "action.mts", output: "action.mjs", banner: requireShim },
+  {
+    source: "cli.mts",
+    output: "cli.mjs",
+    banner: `#!/usr/bin/env node\n${requireShim}`,
   },
-});
+];
+
+for (const { source, output, banner } of entryPoints) {
+  await esbuild.build({
+    absWorkingDir: projectRoot,
+    entryPoints: [path.join(srcDir, source)],
+    bundle: true,
+    outfile: path.join(distDir, output),
+    tsconfig: path.join(srcDir, "tsconfig.json"),
+    format: "esm",
+    target: "es2020",
+    platform: "node",
+    treeShaking: true,
+    banner: {
+      js: banner,
+    },
+  });
+}
@@ -0,0 +1,4 @@
+import { GitHubTransport } from "./logger.mts";
+import { main } from "./main.mts";
+
+await main(new GitHubTransport());
@@ -6,8 +6,8 @@ import { Strategy } from "./strategy.mts";
 export class InputParameterError extends ActionError {
   parameterName: string;
 
-  constructor(name: string, message?: string | undefined) {
-    super(message);
+  constructor(name: string, message?: string | undefined, inner?: unknown) {
+    super(message, inner);
     this.parameterName = name;
   }
 }
@@ -28,22 +28,85 @@ export class InputParameterRequiredError extends InputParameterError {
 }
 
 export class InvalidInputParameterValueError extends InputParameterError {
-  constructor(name: string, value?: string) {
+  constructor(name: string, value?: string, inner?: unknown) {
     if (value == null) {
-      super(name, `invalid value supplied to input parameter '${name}'`);
+      super(name, `invalid value supplied to input parameter '${name}'`, inner);
     } else {
       super(
         name,
         `invalid value supplied to input parameter '${name}': ${JSON.stringify(
           value,
         )}`,
+        inner,
       );
     }
   }
 }
 
+/**
+ * Supplies the input parameters and receives the outputs of a run.
+ */
+export interface ActionHost {
+  /**
+   * Get the value of an input parameter, or undefined if it isn't set.
+   */
+  getInput(name: string): string | undefined;
+  setOutput(name: string, value: unknown): void;
+  setSecret(value: string): void;
+}
+
+const githubActionsHost: ActionHost = {
+  getInput(name: string): string | undefined {
+    // The runner sets every input declared in action.yml, to an empty string
+    // when the workflow doesn't give it a value.
+    const value = process.env[`INPUT_${name.replace(/ /g, "_").toUpperCase()}`];
+    return value !== "" ? value : undefined;
+  },
+  setOutput(name: string, value: unknown): void {
+    actionsCore.setOutput(name, value);
+  },
+  setSecret(value: string): void {
+    actionsCore.setSecret(value);
+  },
+};
+
+let host = githubActionsHost;
+let fallbackInputs = new Map<string, string>();
+const secretListeners: ((value: string) => void)[] = [];
+
+/**
+ * Replace the GitHub Actions runner as the source of input parameters and
+ * the destination of outputs.
+ */
+export function setHost(value: ActionHost): void {
+  host = value;
+}
+
+/**
+ * Set the values of the input parameters that aren't supplied by the host,
+ * e.g. the ones read from a config file.
+ */
+export function setFallbackInputs(values: Map<string, string>): void {
+  fallbackInputs = values;
+}
+
 export function setOutput(name: string, value: unknown): void {
-  actionsCore.setOutput(name, value);
+  host.setOutput(name, value);
+}
+
+/**
+ * Register a function to call with every value registered as a secret, e.g.
+ * to mask it in the logs.
+ */
+export function addSecretListener(listener: (value: string) => void): void {
+  secretListeners.push(listener);
+}
+
+export function setSecret(value: string): void {
+  host.setSecret(value);
+  for (const listener of secretListeners) {
+    listener(value);
+  }
 }
 
 export function getInput(name: string, required: true, trim?: boolean): string;
@@ -122,6 +185,27 @@ export function getBooleanInput(
   throw new InvalidInputParameterValueError(name, value);
 }
 
+export function getIntegerInput(name: string, required: true): number;
+export function getIntegerInput(
+  name: string,
+  required?: false,
+): number | undefined;
+export function getIntegerInput(
+  name: string,
+  required?: boolean,
+): number | (number | undefined) {
+  const value = getRawInput(name);
+  if (!hasValue(required ?? false, name, value)) {
+    return undefined;
+  }
+
+  if (!/^[+-]?\d+$/.test(value.trim())) {
+    throw new InvalidInputParameterValueError(name, value);
+  }
+
+  return parseInt(value, 10);
+}
+
 export function getMultilineInput(
   name: string,
   required?: boolean,
@@ -139,8 +223,45 @@ export function getMultilineInput(
   return entries;
 }
 
+export function getListInput(
+  name: string,
+  required?: boolean,
+): string[] | undefined {
+  const value = getRawInput(name);
+  if (!hasValue(required ?? false, name, value)) {
+    return undefined;
+  }
+
+  const entries = value
+    .split(/[\r\n,]/)
+    .map((x) => x.trim())
+    .filter((x) => x !== "");
+  return [...new Set(entries)];
+}
+
+export function getEnumListInput<T extends string>(
+  name: string,
+  variants: T[],
+  required?: boolean,
+): T[] | undefined {
+  const entries = getListInput(name, required);
+  if (entries == null) {
+    return undefined;
+  }
+
+  for (const entry of entries) {
+    if (!variants.includes(entry as T)) {
+      throw new InvalidInputParameterValueError(name, entry);
+    }
+  }
+  return entries as T[];
+}
+
 function getRawInput(name: string): string | undefined {
-  return process.env[`INPUT_${name.replace(/ /g, "_").toUpperCase()}`] || "";
+  // An empty value supplied by the host still takes precedence, so that a
+  // value from a config file can be cleared. The GitHub Actions host can't
+  // tell empty inputs from missing ones, so this only applies to the CLI.
+  return host.getInput(name) ?? fallbackInputs.get(name) ?? "";
 }
 
 function hasValue(
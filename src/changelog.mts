@@ -0,0 +1,57 @@
+import escapeRegExp from "lodash-es/escapeRegExp";
+
+/**
+ * The default heading pattern, which matches the headings of changelogs
+ * following the Keep a Changelog format (e.g. `## [1.2.3] - 2023-09-01`)
+ * as well as plain version headings (e.g. `## v1.2.3`).
+ */
+export const DEFAULT_HEADING_PATTERN = "^\\[?v?{version}\\]?(\\s|$)";
+
+/**
+ * Build the regular expression matched against the text of the headings.
+ * @param pattern a regular expression, where `{version}` is substituted
+ * with the version
+ * @param version the version being released
+ */
+export function createHeadingRegExp(pattern: string, version: string): RegExp {
+  return new RegExp(pattern.replace(/\{version\}/g, escapeRegExp(version)));
+}
+
+/**
+ * Extract the contents of the section whose heading matches a pattern.
+ * The section ends at the next heading of the same or a higher level.
+ * @returns the contents of the section, or `undefined` if no heading matched
+ */
+export function extractSection(
+  changelog: string,
+  heading: RegExp,
+): string | undefined {
+  const lines = changelog.split(/\r?\n/);
+  let inFence = false;
+  let section: { level: number; start: number } | undefined;
+  for (let i = 0; i < lines.length; i++) {
+    if (/^\s*(```|~~~)/.test(lines[i])) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const match = lines[i].match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (match == null) continue;
+
+    const [, hashes, text] = match;
+    if (section == null) {
+      if (heading.test(text)) {
+        section = { level: hashes.length, start: i + 1 };
+      }
+    } else if (hashes.length <= section.level) {
+      return lines.slice(section.start, i).join("\n").trim();
+    }
+  }
+
+  if (section == null) {
+    return undefined;
+  }
+
+  return lines.slice(section.start).join("\n").trim();
+}
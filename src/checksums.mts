@@ -0,0 +1,50 @@
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { pipeline } from "node:stream/promises";
+
+export enum ChecksumAlgorithm {
+  Sha256 = "sha256",
+  Sha512 = "sha512",
+}
+
+export type Digests = Partial<Record<ChecksumAlgorithm, string>>;
+
+/**
+ * The names of the manifests, following the conventions of the
+ * `sha256sum`/`sha512sum` family of tools.
+ */
+export const MANIFEST_NAMES: Record<ChecksumAlgorithm, string> = {
+  [ChecksumAlgorithm.Sha256]: "SHA256SUMS",
+  [ChecksumAlgorithm.Sha512]: "SHA512SUMS",
+};
+
+/**
+ * Compute the hex-encoded digests of a file, reading it only once.
+ */
+export async function computeDigests(
+  path: string,
+  algorithms: ChecksumAlgorithm[],
+): Promise<Digests> {
+  const hashes = algorithms.map(
+    (algorithm) => [algorithm, createHash(algorithm)] as const,
+  );
+  await pipeline(createReadStream(path), async function (source) {
+    for await (const chunk of source) {
+      for (const [, hash] of hashes) {
+        hash.update(chunk);
+      }
+    }
+  });
+  return Object.fromEntries(
+    hashes.map(([algorithm, hash]) => [algorithm, hash.digest("hex")]),
+  );
+}
+
+/**
+ * Build a manifest in the format understood by `sha256sum --check`.
+ */
+export function createManifest(
+  entries: { name: string; digest: string }[],
+): string {
+  return entries.map(({ name, digest }) => `${digest}  ${name}\n`).join("");
+}
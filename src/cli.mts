@@ -0,0 +1,149 @@
+import { readFile } from "node:fs/promises";
+
+import * as yaml from "yaml";
+
+import { setHost } from "./actions.mts";
+import { ConsoleTransport } from "./logger.mts";
+import { main } from "./main.mts";
+
+interface InputMetadata {
+  description: string;
+  default?: string;
+}
+
+interface ActionMetadata {
+  inputs: { [name: string]: InputMetadata };
+}
+
+// The token is read from the environment instead, so that it doesn't end up
+// in the shell history or in the process list.
+const EXCLUDED_INPUTS = ["token"];
+
+// Debug messages are hidden by the runner unless step debug logging is
+// enabled, but nothing hides them on a console.
+const DEFAULT_LOG_LEVEL = "info";
+
+function fail(message: string): never {
+  process.stderr.write(`error: ${message}\n`);
+  process.stderr.write("Try '--help' for more information.\n");
+  process.exit(2);
+}
+
+async function readActionMetadata(): Promise<ActionMetadata> {
+  // action.yml is shipped next to the entry point.
+  const text = await readFile(new URL("action.yml", import.meta.url), {
+    encoding: "utf8",
+  });
+  return yaml.parse(text) as ActionMetadata;
+}
+
+function printUsage(inputs: [string, InputMetadata][]): void {
+  const lines = [
+    "Usage: cli.mjs --tag <tag> [--<parameter> <value>]...",
+    "",
+    "Creates a GitHub release, taking the same parameters as the action.",
+    "The token is read from the GITHUB_TOKEN environment variable.",
+    "",
+    "Parameters can be passed as '--name value' or '--name=value'; a parameter",
+    "without a value is set to 'true'. Repeating a parameter joins its values",
+    "with newlines, e.g. '--files a.txt --files b.txt'.",
+    "",
+    "Parameters:",
+    ...inputs.map(([name, input]) => {
+      const summary = input.description.trim().split("\n")[0];
+      return `  --${name}\n      ${summary}`;
+    }),
+  ];
+  process.stdout.write(lines.join("\n") + "\n");
+}
+
+/**
+ * Parse the command-line arguments into input parameter values.
+ * @param args the arguments
+ * @param names the names of the valid parameters
+ */
+function parseArgs(args: string[], names: string[]): Map<string, string> {
+  const values = new Map<string, string[]>();
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) {
+      fail(`unexpected argument: ${arg}`);
+    }
+
+    let name = arg.slice(2);
+    let value;
+    const separator = name.indexOf("=");
+    if (separator !== -1) {
+      value = name.slice(separator + 1);
+      name = name.slice(0, separator);
+    } else if (i + 1 < args.length && !args[i + 1].startsWith("--")) {
+      value = args[++i];
+    } else {
+      value = "true";
+    }
+
+    if (!names.includes(name)) {
+      fail(`unknown parameter: --${name}`);
+    }
+    values.set(name, [...(values.get(name) ?? []), value]);
+  }
+
+  return new Map([...values].map(([name, x]) => [name, x.join("\n")]));
+}
+
+const metadata = await readActionMetadata();
+const inputs = Object.entries(metadata.inputs).filter(
+  ([name]) => !EXCLUDED_INPUTS.includes(name),
+);
+
+const args = process.argv.slice(2);
+if (args.includes("--help")) {
+  printUsage(inputs);
+  process.exit(0);
+}
+
+const values = parseArgs(
+  args,
+  inputs.map(([name]) => name),
+);
+
+if (!values.has("log-level")) {
+  values.set("log-level", DEFAULT_LOG_LEVEL);
+}
+
+// Apply the defaults the runner would apply, except for those that are
+// workflow expressions.
+for (const [name, input] of inputs) {
+  if (
+    !values.has(name) &&
+    input.default != null &&
+    !input.default.includes("${{")
+  ) {
+    values.set(name, input.default);
+  }
+}
+if (!values.has("repository") && process.env["GITHUB_REPOSITORY"] != null) {
+  values.set("repository", process.env["GITHUB_REPOSITORY"]);
+}
+
+const token = process.env["GITHUB_TOKEN"];
+if (token == null || token === "") {
+  fail("the GITHUB_TOKEN environment variable must be set");
+}
+values.set("token", token);
+
+setHost({
+  getInput(name: string): string | undefined {
+    return values.get(name);
+  },
+  setOutput(name: string, value: unknown): void {
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    process.stdout.write(`${name}=${text}\n`);
+  },
+  setSecret(_value: string): void {
+    // There's no runner to mask secrets; the logger masks every value
+    // registered as a secret by itself.
+  },
+});
+
+await main(new ConsoleTransport());
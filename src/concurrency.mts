@@ -0,0 +1,35 @@
+/**
+ * Run a function on every item, with at most `limit` invocations in flight.
+ *
+ * If an invocation fails, no new invocations are started; the ones that are
+ * already running are allowed to settle before the first error is rethrown.
+ * @param items the items to process
+ * @param limit the maximum number of concurrent invocations
+ * @param f the function to run, called with the item and its index
+ */
+export async function forEachConcurrent<T>(
+  items: T[],
+  limit: number,
+  f: (item: T, index: number) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  const worker = async (): Promise<void> => {
+    while (failure == null && next < items.length) {
+      const index = next++;
+      try {
+        await f(items[index], index);
+      } catch (err) {
+        failure ??= { error: err };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  if (failure != null) {
+    throw failure.error;
+  }
+}
@@ -0,0 +1,402 @@
+import { readFile } from "node:fs/promises";
+
+import * as yaml from "yaml";
+
+import { InputParameterError } from "./actions.mts";
+import { ChecksumAlgorithm } from "./checksums.mts";
+import { NoFilesFoundPolicy } from "./files.mts";
+import { MakeLatest } from "./latest.mts";
+import { PruneInclude, parseTagPattern } from "./prune.mts";
+import { Strategy } from "./strategy.mts";
+import { TagType } from "./tag.mts";
+import { BodySource, TextSource } from "./text-source.mts";
+
+enum ValueType {
+  String = "a string",
+  Boolean = "a boolean",
+  Integer = "an integer",
+  // Used by parameters accepting either a boolean or a keyword (e.g.
+  // `prerelease: auto`).
+  Scalar = "a string or a boolean",
+  List = "a string or a list of strings",
+  Files = "a string or a list of strings and mappings",
+}
+
+/**
+ * The input parameters that can be set in a config file, along with the type
+ * of their values.
+ */
+const SCHEMA: { [key: string]: ValueType } = {
+  target: ValueType.String,
+  tag: ValueType.String,
+  "tag-format": ValueType.String,
+  "tag-message": ValueType.String,
+  "tag-message-source": ValueType.String,
+  "tag-type": ValueType.String,
+  "tagger-name": ValueType.String,
+  "tagger-email": ValueType.String,
+  "tagger-date": ValueType.String,
+  strategy: ValueType.String,
+  title: ValueType.String,
+  "title-source": ValueType.String,
+  body: ValueType.String,
+  "body-source": ValueType.String,
+  "changelog-heading-pattern": ValueType.String,
+  "changelog-tag-prefix": ValueType.String,
+  "body-header": ValueType.String,
+  "body-header-source": ValueType.String,
+  "body-footer": ValueType.String,
+  "body-footer-source": ValueType.String,
+  "previous-tag": ValueType.String,
+  "notes-config-path": ValueType.String,
+  "text-file-encoding": ValueType.String,
+  "text-trim": ValueType.Boolean,
+  "command-timeout": ValueType.Integer,
+  prerelease: ValueType.Scalar,
+  draft: ValueType.Boolean,
+  "make-latest": ValueType.Scalar,
+  "discussion-category-name": ValueType.String,
+  files: ValueType.Files,
+  "if-no-files-found": ValueType.String,
+  checksums: ValueType.List,
+  "upload-concurrency": ValueType.Integer,
+  "retry-attempts": ValueType.Integer,
+  "retry-max-delay": ValueType.Integer,
+  templating: ValueType.Boolean,
+  "template-env": ValueType.List,
+  "prune-pattern": ValueType.String,
+  "prune-keep": ValueType.Integer,
+  "prune-include": ValueType.List,
+  "prune-delete-tags": ValueType.Boolean,
+  "dry-run": ValueType.Boolean,
+};
+
+/**
+ * The input parameters that can't be set in a config file: the ones used
+ * before the file is read.
+ */
+export const EXCLUDED_INPUTS = [
+  "token",
+  "repository",
+  "config-file",
+  "log-level",
+  "log-file",
+  "redact-keys",
+  "log-preview-length",
+];
+
+/**
+ * The input parameters that can be set in a config file. The build checks
+ * that these and the excluded ones cover the inputs of action.yml.
+ */
+export const CONFIG_FILE_INPUTS = Object.keys(SCHEMA);
+
+const TEXT_SOURCES: string[] = Object.values(TextSource);
+
+/**
+ * The values accepted by the input parameters that take a keyword, or a list
+ * of keywords.
+ */
+const VARIANTS: { [key: string]: string[] } = {
+  "tag-message-source": TEXT_SOURCES,
+  "tag-type": Object.values(TagType),
+  strategy: Object.values(Strategy),
+  "title-source": TEXT_SOURCES,
+  "body-source": [...TEXT_SOURCES, ...Object.values(BodySource)],
+  "body-header-source": TEXT_SOURCES,
+  "body-footer-source": TEXT_SOURCES,
+  prerelease: ["true", "false", "auto"],
+  "make-latest": Object.values(MakeLatest),
+  "if-no-files-found": Object.values(NoFilesFoundPolicy),
+  checksums: Object.values(ChecksumAlgorithm),
+  "prune-include": Object.values(PruneInclude),
+};
+
+/**
+ * The smallest values accepted by the integer input parameters.
+ */
+const MINIMUMS: { [key: string]: number } = {
+  "command-timeout": 1,
+  "upload-concurrency": 1,
+  "retry-attempts": 1,
+  "retry-max-delay": 0,
+  "prune-keep": 0,
+};
+
+const OVERRIDES_KEY = "overrides";
+const CONDITION_KEY = "when";
+
+export class ConfigFileError extends InputParameterError {
+  constructor(path: string, keyPath: string | undefined, message: string) {
+    super(
+      "config-file",
+      keyPath != null
+        ? `invalid config file "${path}": ${keyPath}: ${message}`
+        : `invalid config file "${path}": ${message}`,
+    );
+  }
+}
+
+export interface ConfigFileContext {
+  /**
+   * The tag given directly as an input parameter, if any.
+   */
+  tag?: string;
+  /**
+   * The branch the workflow runs on, if any.
+   */
+  branch?: string;
+}
+
+type Mapping = { [key: string]: unknown };
+
+function isMapping(value: unknown): value is Mapping {
+  return typeof value === "object" && value != null && !Array.isArray(value);
+}
+
+interface Override {
+  branch?: RegExp;
+  tag?: RegExp;
+  values: Map<string, string>;
+}
+
+class ConfigFileParser {
+  path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  fail(keyPath: string | undefined, message: string): never {
+    throw new ConfigFileError(this.path, keyPath, message);
+  }
+
+  /**
+   * Convert a value to the string an input parameter would hold.
+   */
+  parseValue(keyPath: string, type: ValueType, value: unknown): string {
+    switch (type) {
+      case ValueType.String: {
+        if (typeof value === "string") return value;
+        break;
+      }
+      case ValueType.Boolean: {
+        if (typeof value === "boolean") return `${value}`;
+        break;
+      }
+      case ValueType.Integer: {
+        if (Number.isInteger(value)) return `${value}`;
+        break;
+      }
+      case ValueType.Scalar: {
+        if (typeof value === "string" || typeof value === "boolean") {
+          return `${value}`;
+        }
+        break;
+      }
+      case ValueType.List: {
+        if (typeof value === "string") return value;
+        if (Array.isArray(value)) {
+          value.forEach((x, i) => {
+            if (typeof x !== "string") {
+              this.fail(`${keyPath}[${i}]`, "expected a string");
+            }
+          });
+          return value.join("\n");
+        }
+        break;
+      }
+      case ValueType.Files: {
+        if (typeof value === "string") return value;
+        if (Array.isArray(value)) {
+          value.forEach((x, i) => {
+            if (typeof x !== "string" && !isMapping(x)) {
+              this.fail(`${keyPath}[${i}]`, "expected a string or a mapping");
+            }
+          });
+          // Passed on in the same YAML form the input parameter accepts.
+          return value.length > 0 ? yaml.stringify(value) : "";
+        }
+        break;
+      }
+    }
+    return this.fail(keyPath, `expected ${type}`);
+  }
+
+  /**
+   * Check a value against the keywords and the range its input parameter
+   * accepts.
+   */
+  checkValue(keyPath: string, key: string, value: unknown): void {
+    const variants = VARIANTS[key];
+    if (variants != null) {
+      // Lists can be given either as a YAML list or as a single string, in
+      // which case the entries are separated as in an input parameter.
+      let entries: [string, unknown][] = [[keyPath, value]];
+      if (Array.isArray(value)) {
+        entries = value.map((x, i) => [`${keyPath}[${i}]`, x]);
+      } else if (SCHEMA[key] === ValueType.List) {
+        entries = `${value}`.split(/[\r\n,]/).map((x) => [keyPath, x]);
+      }
+      for (const [path, entry] of entries) {
+        const variant = `${entry}`.trim();
+        if (variant !== "" && !variants.includes(variant)) {
+          this.fail(path, `expected one of: ${variants.join(", ")}`);
+        }
+      }
+    }
+
+    const min = MINIMUMS[key];
+    if (min != null && typeof value === "number" && value < min) {
+      this.fail(keyPath, `expected at least ${min}`);
+    }
+  }
+
+  parseValues(keyPath: string, mapping: Mapping): Map<string, string> {
+    const values = new Map<string, string>();
+    for (const [key, value] of Object.entries(mapping)) {
+      const type = SCHEMA[key];
+      const path = keyPath !== "" ? `${keyPath}.${key}` : key;
+      if (type == null) {
+        this.fail(path, "unknown key");
+      }
+      if (value == null) continue;
+      const parsed = this.parseValue(path, type, value);
+      this.checkValue(path, key, value);
+      values.set(key, parsed);
+    }
+    return values;
+  }
+
+  parsePattern(keyPath: string, value: unknown): RegExp | undefined {
+    if (value == null) {
+      return undefined;
+    }
+    if (typeof value !== "string") {
+      return this.fail(keyPath, "expected a string");
+    }
+    return parseTagPattern(value) ?? this.fail(keyPath, "invalid pattern");
+  }
+
+  parseOverride(keyPath: string, value: unknown): Override {
+    if (!isMapping(value)) {
+      return this.fail(keyPath, "expected a mapping");
+    }
+
+    const { [CONDITION_KEY]: condition, ...rest } = value;
+    const conditionPath = `${keyPath}.${CONDITION_KEY}`;
+    if (!isMapping(condition)) {
+      return this.fail(conditionPath, "expected a mapping");
+    }
+    const { branch, tag, ...unknown } = condition;
+    for (const key of Object.keys(unknown)) {
+      this.fail(`${conditionPath}.${key}`, "unknown key");
+    }
+
+    const override = {
+      branch: this.parsePattern(`${conditionPath}.branch`, branch),
+      tag: this.parsePattern(`${conditionPath}.tag`, tag),
+      values: this.parseValues(keyPath, rest),
+    };
+    if (override.branch == null && override.tag == null) {
+      this.fail(conditionPath, "expected a 'branch' or a 'tag' pattern");
+    }
+    // The tag patterns are matched against the tag, so they can't change it.
+    if (override.tag != null && override.values.has("tag")) {
+      this.fail(`${keyPath}.tag`, "can't be set by an override matched by tag");
+    }
+    return override;
+  }
+
+  parse(text: string): [Map<string, string>, Override[]] {
+    let document: unknown;
+    try {
+      document = yaml.parse(text);
+    } catch (err) {
+      this.fail(undefined, err instanceof Error ? err.message : `${err}`);
+    }
+
+    if (document == null) {
+      return [new Map(), []];
+    }
+    if (!isMapping(document)) {
+      this.fail(undefined, "expected a mapping at the top level");
+    }
+
+    const { [OVERRIDES_KEY]: overrides, ...rest } = document;
+    if (overrides != null && !Array.isArray(overrides)) {
+      this.fail(OVERRIDES_KEY, "expected a list");
+    }
+    return [
+      this.parseValues("", rest),
+      (overrides ?? []).map((x: unknown, i: number) =>
+        this.parseOverride(`${OVERRIDES_KEY}[${i}]`, x),
+      ),
+    ];
+  }
+}
+
+/**
+ * Read a config file (YAML or JSON) holding input parameters, and resolve the
+ * values that apply to this run.
+ *
+ * The keys of the file are the names of the input parameters. Its
+ * `overrides` list holds sets of values that only apply when the branch or
+ * the tag matches the patterns of their `when` key (globs, or regular
+ * expressions delimited by slashes). The overrides matched by branch alone
+ * are applied first, so that they can set the tag the others are matched
+ * against; matching overrides are otherwise applied in order.
+ * @param path the path of the file
+ * @param context the branch and the tag to match the overrides against
+ * @returns the input parameter values
+ */
+export async function loadConfigFile(
+  path: string,
+  { tag, branch }: ConfigFileContext,
+): Promise<Map<string, string>> {
+  let text;
+  try {
+    text = await readFile(path, { encoding: "utf8" });
+  } catch (err) {
+    throw new InputParameterError(
+      "config-file",
+      `failed to read config file "${path}"`,
+      err,
+    );
+  }
+
+  const [values, overrides] = new ConfigFileParser(path).parse(text);
+
+  for (const override of overrides) {
+    if (override.tag == null && matches(override.branch, branch)) {
+      for (const [key, value] of override.values) {
+        values.set(key, value);
+      }
+    }
+  }
+
+  const resolvedTag = tag ?? values.get("tag");
+  for (const override of overrides) {
+    if (
+      override.tag != null &&
+      matches(override.tag, resolvedTag) &&
+      matches(override.branch, branch)
+    ) {
+      for (const [key, value] of override.values) {
+        values.set(key, value);
+      }
+    }
+  }
+
+  return values;
+}
+
+function matches(
+  pattern: RegExp | undefined,
+  value: string | undefined,
+): boolean {
+  if (pattern == null) {
+    return true;
+  }
+  return value != null && pattern.test(value);
+}
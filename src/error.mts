@@ -19,3 +19,274 @@ export function isHttpError(err: unknown): err is { status: number } & Error {
 
   return true;
 }
+
+interface ValidationError {
+  resource?: string;
+  code?: string;
+  field?: string;
+  message?: string;
+}
+
+interface ErrorResponse {
+  message?: string;
+  errors?: (ValidationError | string)[];
+  documentation_url?: string;
+}
+
+function getErrorResponse(err: Error & { status: number }): ErrorResponse {
+  const response = (err as { response?: { data?: unknown } }).response;
+  if (typeof response?.data === "object" && response.data != null) {
+    return response.data as ErrorResponse;
+  }
+  return {};
+}
+
+function getValidationErrors(response: ErrorResponse): ValidationError[] {
+  return (response.errors ?? []).map((x) =>
+    typeof x === "string" ? { message: x } : x,
+  );
+}
+
+/**
+ * An error returned by the GitHub API, along with a human-readable
+ * explanation of what likely went wrong.
+ */
+export class GitHubApiError extends ActionError {
+  status: number;
+  title: string;
+  hint: string;
+
+  constructor(
+    message: string,
+    inner: Error & { status: number },
+    title: string,
+    hint: string,
+  ) {
+    super(`${message} (HTTP ${inner.status})`, inner);
+    this.status = inner.status;
+    this.title = title;
+    this.hint = hint;
+  }
+}
+
+export class GitHubAuthenticationError extends GitHubApiError {
+  constructor(message: string, inner: Error & { status: number }) {
+    super(
+      message,
+      inner,
+      "Authentication failed",
+      "The token is invalid or has expired.",
+    );
+  }
+}
+
+export class GitHubPermissionError extends GitHubApiError {
+  constructor(message: string, inner: Error & { status: number }) {
+    super(
+      message,
+      inner,
+      "Insufficient permissions",
+      "The token doesn't have the permissions required to manage releases. " +
+        "Make sure it has the `contents: write` permission " +
+        "(e.g. `permissions: { contents: write }` in the workflow).",
+    );
+  }
+}
+
+export class GitHubRateLimitError extends GitHubApiError {
+  constructor(message: string, inner: Error & { status: number }) {
+    super(
+      message,
+      inner,
+      "Rate limit exceeded",
+      "The token exceeded a GitHub API rate limit. " +
+        "Try again later, or reduce the number of concurrent uploads.",
+    );
+  }
+}
+
+export class GitHubNotFoundError extends GitHubApiError {
+  constructor(message: string, inner: Error & { status: number }) {
+    super(
+      message,
+      inner,
+      "Not found",
+      "The resource doesn't exist, or the token can't access it. " +
+        "Check the `repository` input parameter; GitHub also responds with " +
+        "404 when the token lacks permissions on a private repository.",
+    );
+  }
+}
+
+export class GitHubValidationError extends GitHubApiError {
+  validationErrors: ValidationError[];
+
+  constructor(
+    message: string,
+    inner: Error & { status: number },
+    title?: string,
+    hint?: string,
+  ) {
+    const response = getErrorResponse(inner);
+    const validationErrors = getValidationErrors(response);
+    const details = validationErrors
+      .map((x) =>
+        [x.resource, x.field, x.code, x.message]
+          .filter((x) => x != null)
+          .join(" "),
+      )
+      .join("; ");
+    super(
+      message,
+      inner,
+      title ?? "Validation failed",
+      hint ??
+        `GitHub rejected the request: ${response.message ?? "unknown error"}` +
+          (details !== "" ? ` (${details})` : ""),
+    );
+    this.validationErrors = validationErrors;
+  }
+}
+
+export class TagAlreadyExistsError extends GitHubValidationError {
+  constructor(message: string, inner: Error & { status: number }) {
+    super(
+      message,
+      inner,
+      "Tag already exists",
+      "A tag with the same name already exists. " +
+        "Use the `replace` or `use-existing-tag` strategy to reuse it.",
+    );
+  }
+}
+
+export class ReleaseAlreadyExistsError extends GitHubValidationError {
+  constructor(message: string, inner: Error & { status: number }) {
+    super(
+      message,
+      inner,
+      "Release already exists",
+      "A release for the tag already exists, likely created concurrently " +
+        "by another run. Use the `update-existing-release` strategy to " +
+        "update it in place, or make sure runs releasing the same tag " +
+        "don't overlap.",
+    );
+  }
+}
+
+export class DiscussionCategoryError extends GitHubValidationError {
+  constructor(message: string, inner: Error & { status: number }) {
+    super(
+      message,
+      inner,
+      "Discussion category unavailable",
+      "Discussions aren't enabled for the repository, or the category " +
+        "specified by `discussion-category-name` doesn't exist.",
+    );
+  }
+}
+
+export class InvalidTargetError extends GitHubValidationError {
+  constructor(message: string, inner: Error & { status: number }) {
+    super(
+      message,
+      inner,
+      "Invalid target",
+      "The target commit doesn't exist in the repository. " +
+        "Make sure it was pushed, and check the `target` input parameter.",
+    );
+  }
+}
+
+export class AssetTooLargeError extends GitHubValidationError {
+  constructor(message: string, inner: Error & { status: number }) {
+    super(
+      message,
+      inner,
+      "Asset too large",
+      "Release assets must be smaller than 2 GiB.",
+    );
+  }
+}
+
+function isRateLimited(err: Error & { status: number }): boolean {
+  const headers = (
+    err as { response?: { headers?: { [key: string]: unknown } } }
+  ).response?.headers;
+  if (headers?.["x-ratelimit-remaining"] === "0") {
+    return true;
+  }
+
+  const message = getErrorResponse(err).message ?? err.message;
+  return /rate limit/i.test(message);
+}
+
+/**
+ * Wrap an error thrown by a GitHub API call, mapping well-known failures to
+ * the matching {@link GitHubApiError} subclass.
+ * @param message a description of the operation that failed
+ * @param err the error
+ */
+export function wrapApiError(message: string, err: unknown): ActionError {
+  if (!isHttpError(err)) {
+    return new ActionError(message, err);
+  }
+
+  const response = getErrorResponse(err);
+  const validationErrors = getValidationErrors(response);
+  const text = [
+    response.message,
+    ...validationErrors.map((x) => `${x.field} ${x.code} ${x.message}`),
+  ]
+    .join(" ")
+    .toLowerCase();
+
+  switch (err.status) {
+    case 401: {
+      return new GitHubAuthenticationError(message, err);
+    }
+    case 403: {
+      if (isRateLimited(err)) {
+        return new GitHubRateLimitError(message, err);
+      }
+      return new GitHubPermissionError(message, err);
+    }
+    case 404: {
+      return new GitHubNotFoundError(message, err);
+    }
+    case 413: {
+      return new AssetTooLargeError(message, err);
+    }
+    case 422: {
+      if (text.includes("reference already exists")) {
+        return new TagAlreadyExistsError(message, err);
+      }
+      if (
+        validationErrors.some(
+          (x) => x.field === "tag_name" && x.code === "already_exists",
+        )
+      ) {
+        return new ReleaseAlreadyExistsError(message, err);
+      }
+      if (text.includes("discussion")) {
+        return new DiscussionCategoryError(message, err);
+      }
+      if (
+        text.includes("object does not exist") ||
+        text.includes("target_commitish")
+      ) {
+        return new InvalidTargetError(message, err);
+      }
+      if (validationErrors.some((x) => x.field === "size")) {
+        return new AssetTooLargeError(message, err);
+      }
+      return new GitHubValidationError(message, err);
+    }
+    case 429: {
+      return new GitHubRateLimitError(message, err);
+    }
+    default: {
+      return new ActionError(message, err);
+    }
+  }
+}
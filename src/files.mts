@@ -0,0 +1,233 @@
+import { stat } from "node:fs/promises";
+import { basename, extname } from "node:path";
+
+import { glob } from "glob";
+import type winston from "winston";
+import * as yaml from "yaml";
+
+import { InputParameterError } from "./actions.mts";
+import { Digests } from "./checksums.mts";
+import { ActionError } from "./error.mts";
+
+export enum NoFilesFoundPolicy {
+  Error = "error",
+  Warn = "warn",
+  Ignore = "ignore",
+}
+
+export interface FileSpec {
+  pattern: string;
+  name?: string;
+  label?: string;
+  contentType?: string;
+}
+
+export interface ResolvedFile {
+  path: string;
+  name: string;
+  size: number;
+  label?: string;
+  contentType: string;
+  digests?: Digests;
+}
+
+const DEFAULT_CONTENT_TYPE = "application/octet-stream";
+
+const CONTENT_TYPES: { [ext: string]: string } = {
+  ".7z": "application/x-7z-compressed",
+  ".apk": "application/vnd.android.package-archive",
+  ".asc": "application/pgp-signature",
+  ".bz2": "application/x-bzip2",
+  ".csv": "text/csv",
+  ".deb": "application/vnd.debian.binary-package",
+  ".dmg": "application/x-apple-diskimage",
+  ".exe": "application/vnd.microsoft.portable-executable",
+  ".gif": "image/gif",
+  ".gz": "application/gzip",
+  ".html": "text/html",
+  ".jar": "application/java-archive",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".js": "text/javascript",
+  ".json": "application/json",
+  ".md": "text/markdown",
+  ".msi": "application/x-msi",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".rpm": "application/x-rpm",
+  ".sig": "application/pgp-signature",
+  ".svg": "image/svg+xml",
+  ".tar": "application/x-tar",
+  ".tgz": "application/gzip",
+  ".txt": "text/plain",
+  ".wasm": "application/wasm",
+  ".xml": "application/xml",
+  ".xz": "application/x-xz",
+  ".yaml": "application/yaml",
+  ".yml": "application/yaml",
+  ".zip": "application/zip",
+  ".zst": "application/zstd",
+};
+
+/**
+ * Guess the content type of a file from its extension.
+ */
+export function detectContentType(name: string): string {
+  return CONTENT_TYPES[extname(name).toLowerCase()] ?? DEFAULT_CONTENT_TYPE;
+}
+
+/**
+ * Parse the value of a `files` input parameter.
+ *
+ * Two formats are supported: a newline-separated list of glob patterns, or a
+ * YAML sequence whose entries are either glob patterns or mappings with a
+ * `path` key and optional `name`, `label` and `content-type` keys.
+ */
+export function parseFileSpecs(name: string, value: string): FileSpec[] {
+  if (!/^-(\s|$)/.test(value.trimStart())) {
+    return value
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== "")
+      .map((pattern) => ({ pattern }));
+  }
+
+  let entries: unknown;
+  try {
+    entries = yaml.parse(value);
+  } catch (err) {
+    throw new InputParameterError(
+      name,
+      `input parameter '${name}' is not valid YAML: ${
+        err instanceof Error ? err.message : err
+      }`,
+    );
+  }
+
+  if (!Array.isArray(entries)) {
+    throw new InputParameterError(
+      name,
+      `input parameter '${name}' must be a YAML sequence`,
+    );
+  }
+
+  return entries.map((entry, i): FileSpec => {
+    if (typeof entry === "string") {
+      return { pattern: entry };
+    }
+
+    const fail = (message: string): never => {
+      throw new InputParameterError(
+        name,
+        `invalid entry #${i + 1} in input parameter '${name}': ${message}`,
+      );
+    };
+
+    if (entry == null || typeof entry !== "object" || Array.isArray(entry)) {
+      return fail("expected a string or a mapping");
+    }
+
+    const getString = (key: string): string | undefined => {
+      const value = (entry as { [key: string]: unknown })[key];
+      if (value == null) return undefined;
+      if (typeof value !== "string") {
+        return fail(`'${key}' must be a string`);
+      }
+      return value;
+    };
+
+    for (const key of Object.keys(entry)) {
+      if (!["path", "name", "label", "content-type"].includes(key)) {
+        fail(`unknown key '${key}'`);
+      }
+    }
+
+    return {
+      pattern: getString("path") ?? fail("'path' is required"),
+      name: getString("name"),
+      label: getString("label"),
+      contentType: getString("content-type"),
+    };
+  });
+}
+
+/**
+ * Expand the glob patterns of the file specs. A file matched by several
+ * specs is only included once, using the first spec that matched it.
+ * @param specs the file specs
+ * @param ifNoFilesFound what to do when a pattern doesn't match any file
+ * @param logger the logger used to report patterns that matched nothing
+ */
+export async function resolveFiles(
+  specs: FileSpec[],
+  ifNoFilesFound: NoFilesFoundPolicy,
+  logger: winston.Logger,
+): Promise<ResolvedFile[]> {
+  const files = [];
+  const seen = new Set<string>();
+  for (const spec of specs) {
+    const matches = await glob(spec.pattern);
+    if (matches.length === 0) {
+      const message = `no files found matching pattern "${spec.pattern}"`;
+      switch (ifNoFilesFound) {
+        case NoFilesFoundPolicy.Error: {
+          throw new ActionError(message);
+        }
+        case NoFilesFoundPolicy.Warn: {
+          logger.warn(message);
+          break;
+        }
+        case NoFilesFoundPolicy.Ignore: {
+          logger.debug(message);
+          break;
+        }
+      }
+    }
+
+    const paths = matches.filter((x) => !seen.has(x));
+    if (spec.name != null && paths.length > 1) {
+      throw new InputParameterError(
+        "files",
+        `pattern "${spec.pattern}" has a custom name but matches ` +
+          `${paths.length} files`,
+      );
+    }
+
+    for (const path of paths) {
+      seen.add(path);
+      const stats = await stat(path);
+      const name = spec.name ?? basename(path);
+      files.push({
+        path,
+        name,
+        size: stats.size,
+        label: spec.label,
+        contentType: spec.contentType ?? detectContentType(name),
+      });
+    }
+  }
+  return files;
+}
+
+/**
+ * Make sure that no two files would be uploaded under the same asset name,
+ * since uploading the second one would replace the first.
+ */
+export function assertUniqueNames(files: ResolvedFile[]): void {
+  const paths = new Map<string, string[]>();
+  for (const file of files) {
+    const entry = paths.get(file.name);
+    if (entry == null) {
+      paths.set(file.name, [file.path]);
+    } else {
+      entry.push(file.path);
+    }
+  }
+
+  const duplicates = [...paths].filter(([, x]) => x.length > 1);
+  if (duplicates.length > 0) {
+    throw new ActionError(
+      "multiple files share the same asset name: " +
+        duplicates.map(([name, x]) => `"${name}" (${x.join(", ")})`).join("; "),
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import type winston from "winston";
+
+interface JournalEntry {
+  description: string;
+  revert: () => Promise<void>;
+}
+
+export interface UnwindResult {
+  reverted: string[];
+  failed: string[];
+}
+
+/**
+ * Keeps track of the mutations made to a repository along with the
+ * compensating action for each of them, so that a failed release can be
+ * rolled back in reverse order.
+ */
+export class Journal {
+  entries: JournalEntry[];
+  logger: winston.Logger;
+  prefix: string;
+
+  constructor(
+    logger: winston.Logger,
+    entries: JournalEntry[] = [],
+    prefix = "",
+  ) {
+    this.entries = entries;
+    this.logger = logger;
+    this.prefix = prefix;
+  }
+
+  /**
+   * Get a view of the journal that prefixes the descriptions of the
+   * mutations it records, e.g. with the repository they were made to. The
+   * mutations are still unwound along with the ones of the whole journal.
+   * @param scope the prefix
+   */
+  scoped(scope: string): Journal {
+    return new Journal(this.logger, this.entries, `${this.prefix}${scope}: `);
+  }
+
+  /**
+   * Record a mutation that was just made.
+   * @param description a short description of the mutation
+   * @param revert a function that undoes the mutation
+   */
+  record(description: string, revert: () => Promise<void>): void {
+    description = `${this.prefix}${description}`;
+    this.logger.debug(`journal: ${description}`);
+    this.entries.push({ description, revert });
+  }
+
+  /**
+   * Revert every recorded mutation, most recent first. Failing to revert a
+   * mutation doesn't stop the remaining ones from being reverted.
+   */
+  async unwind(): Promise<UnwindResult> {
+    const result: UnwindResult = {
+      reverted: [],
+      failed: [],
+    };
+
+    let entry;
+    while ((entry = this.entries.pop()) != null) {
+      try {
+        this.logger.info(`reverting: ${entry.description}`);
+        await entry.revert();
+        result.reverted.push(entry.description);
+      } catch (err) {
+        this.logger.error(`failed to revert: ${entry.description}`, {
+          error: err,
+        });
+        result.failed.push(entry.description);
+      }
+    }
+
+    this.logger.info("rollback finished", result);
+    return result;
+  }
+}
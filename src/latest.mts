@@ -0,0 +1,44 @@
+import { compareSemver, parseSemver } from "./semver.mts";
+
+export enum MakeLatest {
+  True = "true",
+  False = "false",
+  Legacy = "legacy",
+  Auto = "auto",
+}
+
+interface ReleaseVersion {
+  tag_name: string;
+  draft: boolean;
+  prerelease: boolean;
+}
+
+/**
+ * Determine whether a release should become the latest release, i.e. its
+ * tag has the highest version among the published, non-prerelease releases.
+ * Releases whose tag isn't a semver are ignored.
+ * @param tag the tag of the new release
+ * @param releases the existing releases
+ * @returns `undefined` if the tag isn't a semver
+ */
+export function isHighestVersion(
+  tag: string,
+  releases: ReleaseVersion[],
+): boolean | undefined {
+  const version = parseSemver(tag);
+  if (version == null) {
+    return undefined;
+  }
+
+  for (const release of releases) {
+    if (release.draft || release.prerelease || release.tag_name === tag) {
+      continue;
+    }
+
+    const other = parseSemver(release.tag_name);
+    if (other != null && compareSemver(version, other) < 0) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -1,9 +1,13 @@
+import { appendFileSync } from "node:fs";
+
 import actionsCore from "@actions/core";
 import omit from "lodash-es/omit";
 import winston from "winston";
 import WinstonTransport from "winston-transport";
 
+import { InputParameterError } from "./actions.mts";
 import { ActionError, INNER_ERROR } from "./error.mts";
+import { Redactor } from "./redact.mts";
 
 const NEWLINE = Symbol("New line");
 const INDENT = Symbol("Increase indent");
@@ -121,7 +125,7 @@ const formatter = winston.format((info) => {
     builder.push(info.message);
   }
 
-  const metadata = omit(info, ["level", "message", "error"]);
+  const metadata = omit(info, ["level", "message", "error", "title"]);
   if (Object.keys(metadata).length > 0) {
     if (info.message != null) {
       builder.push(": ");
@@ -137,10 +141,11 @@ const formatter = winston.format((info) => {
   return info;
 })();
 
+// Lower values have a higher priority, following the winston convention.
 enum LogLevel {
-  Info,
-  Warn,
   Error,
+  Warn,
+  Info,
   Debug,
 }
 
@@ -157,15 +162,41 @@ const LEVELS = Object.fromEntries(
   [P in Lowercase<keyof typeof LogLevel>]: number;
 };
 
-class GitHubTransport extends WinstonTransport {
+/**
+ * Redacts every log entry before it reaches the transports.
+ */
+function createRedactionFormat(redactor: Redactor): winston.Logform.Format {
+  return winston.format((info) => {
+    for (const key of Object.keys(info)) {
+      if (key === "level") continue;
+      if (key === "message" && typeof info.message === "string") {
+        info.message = redactor.maskSecrets(info.message);
+        continue;
+      }
+      info[key] = redactor.redact(info[key], key === "error" ? undefined : key);
+    }
+    return info;
+  })();
+}
+
+export type LogLevelName = keyof typeof LEVELS;
+
+export const LOG_LEVEL_NAMES = Object.keys(LEVELS) as LogLevelName[];
+
+export class GitHubTransport extends WinstonTransport {
   constructor(opts?: WinstonTransport.TransportStreamOptions) {
-    super(opts);
+    super({
+      format: winston.format.combine(formatter, winston.format.simple()),
+      ...opts,
+    });
   }
 
   log(
-    info: { level: keyof typeof LEVELS; message: string },
+    info: { level: keyof typeof LEVELS; message: string; title?: string },
     next: () => void,
   ): void {
+    // The title is shown on the annotation created for warnings and errors.
+    const properties = info.title != null ? { title: info.title } : {};
     switch (info.level) {
       case "debug": {
         actionsCore.debug(info.message);
@@ -176,11 +207,11 @@ class GitHubTransport extends WinstonTransport {
         break;
       }
       case "warn": {
-        actionsCore.warning(info.message);
+        actionsCore.warning(info.message, properties);
         break;
       }
       case "error": {
-        actionsCore.error(info.message);
+        actionsCore.error(info.message, properties);
         break;
       }
     }
@@ -188,11 +219,153 @@ class GitHubTransport extends WinstonTransport {
   }
 }
 
-export function createLogger(): winston.Logger {
+/**
+ * Writes log entries to the console, for runs outside of GitHub Actions.
+ * Warnings and errors go to stderr.
+ */
+export class ConsoleTransport extends WinstonTransport {
+  constructor(opts?: WinstonTransport.TransportStreamOptions) {
+    super({
+      format: winston.format.combine(formatter, winston.format.simple()),
+      ...opts,
+    });
+  }
+
+  log(
+    info: { level: keyof typeof LEVELS; message: string; title?: string },
+    next: () => void,
+  ): void {
+    const title = info.title != null ? `${info.title}: ` : "";
+    const line = `${info.level}: ${title}${info.message}\n`;
+    if (info.level === "error" || info.level === "warn") {
+      process.stderr.write(line);
+    } else {
+      process.stdout.write(line);
+    }
+    next();
+  }
+}
+
+function serializeError(error: unknown): unknown {
+  if (!(error instanceof Error)) {
+    return error;
+  }
+
+  return {
+    ...omit(error, ["name", "message", "stack"]),
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+    cause:
+      error instanceof ActionError
+        ? serializeError(error[INNER_ERROR])
+        : undefined,
+  };
+}
+
+/**
+ * Serialize a value to JSON, replacing circular references instead of
+ * failing.
+ */
+function toJson(value: unknown): string {
+  const seen = new WeakSet();
+  return JSON.stringify(value, (_key, value: unknown) => {
+    if (typeof value === "object" && value != null) {
+      if (seen.has(value)) {
+        return "[Circular]";
+      }
+      seen.add(value);
+    }
+    return value;
+  });
+}
+
+/**
+ * Appends every log entry to a file, as a line of JSON.
+ *
+ * Entries are written synchronously so that none of them are lost when the
+ * process exits right after logging an error.
+ */
+class JsonLinesTransport extends WinstonTransport {
+  filename: string;
+  failed: boolean;
+
+  constructor(
+    filename: string,
+    opts?: WinstonTransport.TransportStreamOptions,
+  ) {
+    super(opts);
+    this.filename = filename;
+    this.failed = false;
+  }
+
+  log(
+    info: { level: string; message: unknown; error?: unknown },
+    next: () => void,
+  ): void {
+    const entry = {
+      timestamp: new Date().toISOString(),
+      ...info,
+      error: serializeError(info.error),
+    };
+    // Failing to write the log file mustn't make the logger throw, since
+    // that would also prevent the error that caused it from being reported.
+    if (!this.failed) {
+      try {
+        appendFileSync(this.filename, toJson(entry) + "\n");
+      } catch (err) {
+        this.failed = true;
+        process.stderr.write(
+          `failed to write to log file "${this.filename}": ${
+            err instanceof Error ? err.message : err
+          }\n`,
+        );
+      }
+    }
+    next();
+  }
+}
+
+/**
+ * Create a logger. It has no transports until one is added, e.g. with
+ * `logger.add(new GitHubTransport())`.
+ */
+export function createLogger(redactor: Redactor): winston.Logger {
   return winston.createLogger({
-    transports: [new GitHubTransport()],
-    format: winston.format.combine(formatter, winston.format.simple()),
+    format: createRedactionFormat(redactor),
     levels: LEVELS,
     level: "debug",
   });
 }
+
+export interface LoggerOptions {
+  level?: LogLevelName;
+  file?: string;
+}
+
+/**
+ * Apply the logging options supplied by the user.
+ * @param logger a logger created by {@link createLogger}
+ * @param options the logging options
+ */
+export function configureLogger(
+  logger: winston.Logger,
+  { level, file }: LoggerOptions,
+): void {
+  if (level != null) {
+    logger.level = level;
+  }
+
+  if (file != null) {
+    try {
+      appendFileSync(file, "");
+    } catch (err) {
+      throw new InputParameterError(
+        "log-file",
+        `failed to open log file "${file}"`,
+        err,
+      );
+    }
+    logger.add(new JsonLinesTransport(file));
+  }
+}
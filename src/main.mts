@@ -1,81 +1,182 @@
 import { createReadStream } from "node:fs";
-import { readFile, stat } from "node:fs/promises";
-import { basename } from "node:path";
-import { setTimeout as sleep } from "node:timers/promises";
+import { mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 
 import { getOctokit } from "@actions/github";
-import { glob } from "glob";
+import type { Endpoints } from "@octokit/types";
+import type WinstonTransport from "winston-transport";
 
 import {
+  InputParameterError,
   InputParameterIncompatibleStrategyError,
   InputParameterRequiredError,
+  InvalidInputParameterValueError,
+  addSecretListener,
   getBooleanInput,
   getEnumInput,
+  getEnumListInput,
   getInput,
-  getMultilineInput,
+  getIntegerInput,
+  getListInput,
+  setFallbackInputs,
   setOutput,
+  setSecret,
 } from "./actions.mts";
-import { ActionError, INNER_ERROR, isHttpError } from "./error.mts";
-import { createLogger } from "./logger.mts";
+import {
+  DEFAULT_HEADING_PATTERN,
+  createHeadingRegExp,
+  extractSection,
+} from "./changelog.mts";
+import {
+  ChecksumAlgorithm,
+  MANIFEST_NAMES,
+  computeDigests,
+  createManifest,
+} from "./checksums.mts";
+import { forEachConcurrent } from "./concurrency.mts";
+import { loadConfigFile } from "./config-file.mts";
+import {
+  ActionError,
+  GitHubApiError,
+  INNER_ERROR,
+  isHttpError,
+  wrapApiError,
+} from "./error.mts";
+import {
+  FileSpec,
+  NoFilesFoundPolicy,
+  ResolvedFile,
+  assertUniqueNames,
+  parseFileSpecs,
+  resolveFiles,
+} from "./files.mts";
+import { Journal } from "./journal.mts";
+import { MakeLatest, isHighestVersion } from "./latest.mts";
+import { LOG_LEVEL_NAMES, configureLogger, createLogger } from "./logger.mts";
+import { UploadProgress } from "./progress.mts";
+import {
+  PruneInclude,
+  PruneOptions,
+  parseTagPattern,
+  selectReleasesToPrune,
+} from "./prune.mts";
+import {
+  DEFAULT_PREVIEW_LENGTH,
+  DEFAULT_REDACTED_KEYS,
+  Redactor,
+} from "./redact.mts";
+import {
+  DEFAULT_RETRY_ATTEMPTS,
+  DEFAULT_RETRY_MAX_DELAY,
+  RetryPolicy,
+  installRetryPolicy,
+  withReconciledRetry,
+  withRetry,
+} from "./retry.mts";
+import { parseSemver } from "./semver.mts";
 import { Strategy } from "./strategy.mts";
+import {
+  Report,
+  ReportRelease,
+  createReport,
+  createReportRelease,
+  writeSummary,
+} from "./summary.mts";
+import { TagType, Tagger } from "./tag.mts";
+import { createTemplateContext, renderTemplate } from "./template.mts";
+import { BodySource, Render, getTextInput } from "./text-source.mts";
 import unreachable from "./unreachable.mts";
 
-const logger = createLogger();
+const redactor = new Redactor();
+const logger = createLogger(redactor);
+addSecretListener((value) => redactor.addSecret(value));
 
-async function getTitle(): Promise<string | undefined> {
-  const source = getEnumInput("title-source", ["literal", "file", "env"], true);
-  switch (source) {
-    case "literal": {
-      return getInput("title", false);
-    }
-    case "file": {
-      const path = getInput("title", true);
-      try {
-        return await readFile(path, {
-          encoding: "utf8",
-        });
-      } catch (err) {
-        throw new ActionError(`failed to read title from file "${path}"`, err);
-      }
-    }
-    case "env": {
-      const varName = getInput("title", true);
-      return process.env[varName];
-    }
-    default: {
-      throw unreachable();
-    }
+interface BodyContext {
+  owner: string;
+  repo: string;
+  tag: string;
+  targetSha?: string;
+  render: Render;
+}
+
+async function getBody(
+  github: ReturnType<typeof getOctokit>,
+  { owner, repo, tag, targetSha, render }: BodyContext,
+): Promise<string | undefined> {
+  return await getTextInput("body", {
+    render,
+    extraSources: {
+      [BodySource.Generate]: async () =>
+        await generateReleaseNotes(github, { owner, repo, tag, targetSha }),
+      [BodySource.Changelog]: async () => await getChangelogSection(tag),
+    },
+  });
+}
+
+async function generateReleaseNotes(
+  github: ReturnType<typeof getOctokit>,
+  {
+    owner,
+    repo,
+    tag,
+    targetSha,
+  }: { owner: string; repo: string; tag: string; targetSha?: string },
+): Promise<string> {
+  logger.info("generating release notes");
+  try {
+    const notes = await github.rest.repos.generateReleaseNotes({
+      owner,
+      repo,
+      tag_name: tag,
+      target_commitish: targetSha,
+      previous_tag_name: getInput("previous-tag"),
+      configuration_file_path: getInput("notes-config-path"),
+    });
+    return notes.data.body;
+  } catch (err) {
+    throw wrapApiError("failed to generate release notes", err);
   }
 }
 
-async function getBody(): Promise<string | undefined> {
-  const source = getEnumInput("body-source", ["literal", "file", "env"], true);
-  switch (source) {
-    case "literal": {
-      return getInput("body", false);
-    }
-    case "file": {
-      const path = getInput("body", true);
-      try {
-        return await readFile(path, {
-          encoding: "utf8",
-        });
-      } catch (err) {
-        throw new ActionError(`failed to read title from file "${path}"`, err);
-      }
-    }
-    case "env": {
-      const varName = getInput("body", true);
-      return process.env[varName];
-    }
-    default: {
-      throw unreachable();
-    }
+async function getChangelogSection(tag: string): Promise<string> {
+  const path = getInput("body") ?? "CHANGELOG.md";
+  let changelog;
+  try {
+    changelog = await readFile(path, {
+      encoding: "utf8",
+    });
+  } catch (err) {
+    throw new ActionError(`failed to read changelog "${path}"`, err);
+  }
+
+  const prefix = getInput("changelog-tag-prefix", false, false) ?? "v";
+  const version = tag.startsWith(prefix) ? tag.slice(prefix.length) : tag;
+  const pattern =
+    getInput("changelog-heading-pattern") ?? DEFAULT_HEADING_PATTERN;
+  let heading;
+  try {
+    heading = createHeadingRegExp(pattern, version);
+  } catch (err) {
+    throw new InvalidInputParameterValueError(
+      "changelog-heading-pattern",
+      pattern,
+      err,
+    );
+  }
+
+  logger.info(`extracting section "${version}" from changelog "${path}"`);
+  const section = extractSection(changelog, heading);
+  if (section == null) {
+    throw new ActionError(
+      `no section matching version "${version}" found in changelog ` +
+        `"${path}" (heading pattern: ${heading})`,
+    );
   }
+  return section;
 }
 
-function getRepo(): [string, string] {
-  const fullRepoPath = getInput("repository", true);
+function parseRepository(fullRepoPath: string): [string, string] {
   const match = fullRepoPath.match(/^(.*)\/(.*)$/);
   if (match == null) {
     throw new ActionError(
@@ -98,17 +199,196 @@ function getRepo(): [string, string] {
   return [owner, repo];
 }
 
+function getRepositories(): [string, string][] {
+  const repositories = getListInput("repository");
+  if (repositories == null || repositories.length === 0) {
+    throw new InputParameterRequiredError("repository");
+  }
+  return repositories.map(parseRepository);
+}
+
+/**
+ * Make sure the tag matches the format specified by the `tag-format` input
+ * parameter, if any.
+ */
+function validateTagFormat(tag: string): void {
+  const format = getInput("tag-format");
+  if (format == null) {
+    return;
+  }
+
+  if (format === "semver") {
+    if (parseSemver(tag) == null) {
+      throw new InputParameterError(
+        "tag",
+        `tag "${tag}" is not a valid semver (e.g. 1.2.3 or v1.2.3-rc.1)`,
+      );
+    }
+    return;
+  }
+
+  let regex;
+  try {
+    regex = new RegExp(`^(?:${format})$`);
+  } catch (err) {
+    throw new InvalidInputParameterValueError("tag-format", format, err);
+  }
+  if (!regex.test(tag)) {
+    throw new InputParameterError(
+      "tag",
+      `tag "${tag}" doesn't match the format: ${format}`,
+    );
+  }
+}
+
+function getPrerelease(tag: string): boolean {
+  if (getInput("prerelease")?.toLowerCase() !== "auto") {
+    return getBooleanInput("prerelease") ?? false;
+  }
+
+  const semver = parseSemver(tag);
+  if (semver == null) {
+    throw new InputParameterError(
+      "prerelease",
+      `input parameter 'prerelease' can't be 'auto' since tag "${tag}" ` +
+        `is not a valid semver`,
+    );
+  }
+
+  const prerelease = semver.prerelease.length > 0;
+  logger.info(`detected prerelease from tag: ${prerelease}`);
+  return prerelease;
+}
+
+function getPruneOptions(): PruneOptions | undefined {
+  const patternInput = getInput("prune-pattern");
+  if (patternInput == null) {
+    return undefined;
+  }
+
+  const pattern = parseTagPattern(patternInput);
+  if (pattern == null) {
+    throw new InvalidInputParameterValueError("prune-pattern", patternInput);
+  }
+
+  const keep = getIntegerInput("prune-keep", true);
+  if (keep < 0) {
+    throw new InvalidInputParameterValueError("prune-keep", keep.toString());
+  }
+
+  return {
+    pattern,
+    keep,
+    include: getEnumListInput("prune-include", Object.values(PruneInclude)) ?? [
+      PruneInclude.All,
+    ],
+    deleteTags: getBooleanInput("prune-delete-tags") ?? false,
+  };
+}
+
+function getRetryPolicy(): RetryPolicy {
+  const attempts = getIntegerInput("retry-attempts") ?? DEFAULT_RETRY_ATTEMPTS;
+  if (attempts < 1) {
+    throw new InvalidInputParameterValueError(
+      "retry-attempts",
+      attempts.toString(),
+    );
+  }
+  const maxDelay =
+    getIntegerInput("retry-max-delay") ?? DEFAULT_RETRY_MAX_DELAY;
+  if (maxDelay < 0) {
+    throw new InvalidInputParameterValueError(
+      "retry-max-delay",
+      maxDelay.toString(),
+    );
+  }
+  return { attempts, maxDelay };
+}
+
+function getTagger(): Tagger | undefined {
+  const name = getInput("tagger-name");
+  const email = getInput("tagger-email");
+  const date = getInput("tagger-date");
+  if (name == null && email == null) {
+    if (date != null) {
+      throw new InputParameterRequiredError("tagger-name");
+    }
+    return undefined;
+  }
+
+  if (name == null) {
+    throw new InputParameterRequiredError("tagger-name");
+  }
+
+  if (email == null) {
+    throw new InputParameterRequiredError("tagger-email");
+  }
+
+  if (date != null && isNaN(Date.parse(date))) {
+    throw new InvalidInputParameterValueError("tagger-date", date);
+  }
+
+  return {
+    name,
+    email,
+    date: date != null ? new Date(date).toISOString() : undefined,
+  };
+}
+
+/**
+ * Resolve the commit an existing tag points to, peeling annotated tags.
+ * @returns the SHA of the commit, or `undefined` if the tag doesn't exist
+ */
+async function resolveTagCommit(
+  github: ReturnType<typeof getOctokit>,
+  owner: string,
+  repo: string,
+  tag: string,
+): Promise<string | undefined> {
+  try {
+    const ref = await github.rest.git.getRef({
+      owner,
+      repo,
+      ref: `tags/${tag}`,
+    });
+    let { sha, type } = ref.data.object;
+    while (type === "tag") {
+      const tagObject = await github.rest.git.getTag({
+        owner,
+        repo,
+        tag_sha: sha,
+      });
+      ({ sha, type } = tagObject.data.object);
+    }
+    return sha;
+  } catch (err) {
+    if (isHttpError(err) && err.status === 404) {
+      return undefined;
+    }
+    throw wrapApiError(`failed to resolve tag "${tag}"`, err);
+  }
+}
+
 interface ConfigBase {
   owner: string;
   repo: string;
   tag: string;
   tagMessage: string;
+  tagType: TagType;
+  tagger?: Tagger;
   title: string;
   body: string;
   prerelease: boolean;
   draft: boolean;
   discussionCategoryName?: string;
-  files: string[];
+  makeLatest?: MakeLatest;
+  files: FileSpec[];
+  ifNoFilesFound: NoFilesFoundPolicy;
+  checksums: ChecksumAlgorithm[];
+  uploadConcurrency: number;
+  retry: RetryPolicy;
+  prune?: PruneOptions;
+  dryRun: boolean;
 }
 
 type Config =
@@ -120,26 +400,54 @@ type Config =
       targetSha: string;
     });
 
-async function init(): Promise<[ReturnType<typeof getOctokit>, Config]> {
-  const github = getOctokit(getInput("token", true), {
+/**
+ * The configuration that applies to every repository.
+ */
+type SharedConfig = Omit<
+  ConfigBase,
+  "owner" | "repo" | "tagMessage" | "title" | "body"
+> & {
+  strategy: Strategy;
+  target?: string;
+  templating: boolean;
+};
+
+async function init(): Promise<[ReturnType<typeof getOctokit>, Config[]]> {
+  const token = getInput("token", true);
+  setSecret(token);
+
+  const github = getOctokit(token, {
     request: {
       timeout: 30000,
     },
   });
+  const retry = getRetryPolicy();
+  installRetryPolicy(github, retry, logger);
 
-  const [owner, repo] = getRepo();
+  const repositories = getRepositories();
   const tag = getInput("tag", true);
+  validateTagFormat(tag);
 
-  // The user can set the message to an empty string.
-  // If the input parameter is omitted, it defaults to the tag.
-  const tagMessage = getInput("tag-message") || tag;
-
-  const strategy = getEnumInput("strategy", Object.values(Strategy), true);
-  const title = (await getTitle()) ?? "";
-  const body = (await getBody()) ?? "";
-  const prerelease = getBooleanInput("prerelease") ?? false;
+  const strategy =
+    getEnumInput("strategy", Object.values(Strategy)) ?? Strategy.FailFast;
+  const prerelease = getPrerelease(tag);
   const draft = getBooleanInput("draft") ?? false;
-  const files = getMultilineInput("files") ?? [];
+  const makeLatest = getEnumInput("make-latest", Object.values(MakeLatest));
+  const files = parseFileSpecs("files", getInput("files", false, false) ?? "");
+  const ifNoFilesFound =
+    getEnumInput("if-no-files-found", Object.values(NoFilesFoundPolicy)) ??
+    NoFilesFoundPolicy.Warn;
+  const checksums =
+    getEnumListInput("checksums", Object.values(ChecksumAlgorithm)) ?? [];
+  const uploadConcurrency = getIntegerInput("upload-concurrency") ?? 1;
+  if (uploadConcurrency < 1) {
+    throw new InvalidInputParameterValueError(
+      "upload-concurrency",
+      uploadConcurrency.toString(),
+    );
+  }
+  const prune = getPruneOptions();
+  const dryRun = getBooleanInput("dry-run") ?? false;
 
   // If this is set but the repo doesn't have discussions enabled,
   // GitHub will reject our request.
@@ -152,12 +460,56 @@ async function init(): Promise<[ReturnType<typeof getOctokit>, Config]> {
     target = process.env["GITHUB_SHA"];
   }
 
+  const tagType =
+    getEnumInput("tag-type", Object.values(TagType)) ?? TagType.Annotated;
+  const tagger = getTagger();
+
+  const shared: SharedConfig = {
+    tag,
+    tagType,
+    tagger,
+    prerelease,
+    draft,
+    discussionCategoryName,
+    makeLatest,
+    files,
+    ifNoFilesFound,
+    checksums,
+    uploadConcurrency,
+    retry,
+    prune,
+    dryRun,
+    strategy,
+    target,
+    templating: getBooleanInput("templating") ?? false,
+  };
+
+  const configs = [];
+  for (const [owner, repo] of repositories) {
+    configs.push(await initRepository(github, shared, owner, repo));
+  }
+  return [github, configs];
+}
+
+/**
+ * Resolve the configuration of the release in one of the repositories: the
+ * target ref and the text parameters (which may be templates) can differ
+ * from one repository to another.
+ */
+async function initRepository(
+  github: ReturnType<typeof getOctokit>,
+  { strategy, target, templating, ...shared }: SharedConfig,
+  owner: string,
+  repo: string,
+): Promise<Config> {
+  const { tag } = shared;
+
   let targetSha;
   if (target?.includes("/")) {
     logger.debug("assuming target is a git ref");
 
     const targetRefName = target.replace(/^refs\//, "");
-    logger.info(`resolving target ref: ${targetRefName}`);
+    logger.info(`resolving target ref in ${owner}/${repo}: ${targetRefName}`);
 
     try {
       targetSha = (
@@ -168,24 +520,47 @@ async function init(): Promise<[ReturnType<typeof getOctokit>, Config]> {
         })
       ).data.object.sha;
     } catch (err) {
-      throw new ActionError("failed to resolve target ref", err);
+      throw wrapApiError("failed to resolve target ref", err);
     }
   } else {
     logger.debug("assuming target is a SHA");
     targetSha = target;
   }
 
+  let render: Render = (_name, text) => text;
+  if (templating) {
+    const context = createTemplateContext({
+      owner,
+      repo,
+      tag,
+      sha: targetSha ?? (await resolveTagCommit(github, owner, repo, tag)),
+      envNames: getListInput("template-env") ?? [],
+      now: new Date(),
+    });
+    render = (name, text): string | undefined =>
+      text != null ? renderTemplate(name, text, context) : text;
+  }
+
+  // The user can set the message to an empty string.
+  // If the input parameter is omitted, it defaults to the tag.
+  const tagMessage = (await getTextInput("tag-message", { render })) || tag;
+
+  const title = (await getTextInput("title", { render })) ?? "";
+  const body = [
+    await getTextInput("body-header", { render }),
+    await getBody(github, { owner, repo, tag, targetSha, render }),
+    await getTextInput("body-footer", { render }),
+  ]
+    .filter((x) => x != null && x !== "")
+    .join("\n\n");
+
   const config = {
+    ...shared,
     owner,
     repo,
-    tag,
     tagMessage,
     title,
     body,
-    prerelease,
-    draft,
-    discussionCategoryName,
-    files,
   };
 
   if (targetSha == null) {
@@ -193,291 +568,1196 @@ async function init(): Promise<[ReturnType<typeof getOctokit>, Config]> {
       throw new InputParameterRequiredError("target");
     }
 
-    return [
-      github,
-      {
-        ...config,
-        strategy,
-      },
-    ];
+    return {
+      ...config,
+      strategy,
+    };
   }
 
   if (strategy === Strategy.UseExistingTag) {
     throw new InputParameterIncompatibleStrategyError("target", strategy);
   }
 
-  return [
-    github,
-    {
-      ...config,
-      strategy,
-      targetSha,
-    },
-  ];
+  return {
+    ...config,
+    strategy,
+    targetSha,
+  };
 }
 
-async function run(): Promise<void> {
-  const [github, config] = await init();
-  logger.info("initialized", {
-    config,
-  });
+type Release =
+  Endpoints["GET /repos/{owner}/{repo}/releases/{release_id}"]["response"]["data"];
 
-  let existingTag;
-  try {
-    logger.info("checking if tag already exists");
-    existingTag = await github.rest.git.getRef({
-      owner: config.owner,
-      repo: config.repo,
-      ref: `tags/${config.tag}`,
-    });
-  } catch (err) {
-    if (isHttpError(err)) {
-      if (err.status !== 404) {
-        throw new ActionError("failed to verify if tag already exists", err);
-      }
-    } else {
+type GitRef =
+  Endpoints["GET /repos/{owner}/{repo}/git/ref/{ref}"]["response"]["data"];
+
+type TagAction = "create" | "update" | "keep";
+
+const TAG_OUTCOMES: Record<TagAction, string> = {
+  create: "created",
+  update: "moved",
+  keep: "reused",
+};
+
+interface PlannedRelease {
+  id: number;
+  name: string | null;
+  draft: boolean;
+}
+
+interface Plan {
+  repository: string;
+  tag: string;
+  existingTagSha?: string;
+  strategy: Strategy;
+  tagAction: TagAction;
+  tagType: TagType;
+  targetSha?: string;
+  makeLatest?: string;
+  updateRelease?: PlannedRelease;
+  deleteReleases: PlannedRelease[];
+  pruneReleases?: PlannedRelease[];
+  files: ResolvedFile[];
+}
+
+/**
+ * Compute the digests of every file and write a manifest for each algorithm.
+ * @returns the manifest files, ready to be uploaded alongside the others
+ */
+async function addChecksums(
+  files: ResolvedFile[],
+  algorithms: ChecksumAlgorithm[],
+): Promise<ResolvedFile[]> {
+  for (const file of files) {
+    logger.debug(`computing checksums: ${file.path}`);
+    try {
+      file.digests = await computeDigests(file.path, algorithms);
+    } catch (err) {
       throw new ActionError(
-        "failed to verify if tag already exists (unknown error)",
+        `failed to compute checksums of file: ${file.path}`,
         err,
       );
     }
   }
 
-  if (existingTag != null && config.strategy === Strategy.FailFast) {
-    throw new ActionError("tag already exists");
+  const manifestDir = await mkdtemp(
+    join(process.env["RUNNER_TEMP"] ?? tmpdir(), "gh-create-release-"),
+  );
+  const manifests = [];
+  for (const algorithm of algorithms) {
+    const name = MANIFEST_NAMES[algorithm];
+    const path = join(manifestDir, name);
+    const contents = createManifest(
+      files.map((file) => ({
+        name: file.name,
+        digest: file.digests?.[algorithm] ?? unreachable(),
+      })),
+    );
+    await writeFile(path, contents);
+    manifests.push({
+      path,
+      name,
+      size: Buffer.byteLength(contents),
+      contentType: "text/plain",
+    });
   }
+  return manifests;
+}
 
-  const releases = await github.rest.repos.listReleases({
-    owner: config.owner,
-    repo: config.repo,
+/**
+ * List every release of the repository, walking all pages of the release
+ * list. Unlike the tag-based lookup endpoint, the release list also includes
+ * drafts (which don't have a tag ref until they're published).
+ * Releases are returned newest first.
+ */
+async function listReleases(
+  github: ReturnType<typeof getOctokit>,
+  owner: string,
+  repo: string,
+): Promise<Release[]> {
+  return await github.paginate(github.rest.repos.listReleases, {
+    owner,
+    repo,
+    per_page: 100,
   });
-  logger.debug(
-    `checking for existing releases associated with tag "${config.tag}"`,
+}
+
+function findReleasesForTag(releases: Release[], tag: string): Release[] {
+  logger.debug(`checking for existing releases associated with tag "${tag}"`);
+  const matches = releases.filter((release) => release.tag_name === tag);
+  for (const release of matches) {
+    logger.info(
+      `found release associated with tag "${tag}" ` +
+        `(id ${release.id}, draft: ${release.draft}, ` +
+        `created at ${release.created_at})`,
+    );
+  }
+  return matches;
+}
+
+/**
+ * Resolve the value of the `make_latest` release parameter.
+ */
+function resolveMakeLatest(
+  config: Config,
+  releases: Release[],
+): "true" | "false" | "legacy" | undefined {
+  if (config.makeLatest !== MakeLatest.Auto) {
+    return config.makeLatest;
+  }
+
+  // Drafts and prereleases can't be the latest release anyway.
+  if (config.draft || config.prerelease) {
+    return "false";
+  }
+
+  const highest = isHighestVersion(config.tag, releases);
+  if (highest == null) {
+    throw new InputParameterError(
+      "make-latest",
+      `input parameter 'make-latest' can't be 'auto' since tag ` +
+        `"${config.tag}" is not a valid semver`,
+    );
+  }
+
+  logger.info(
+    highest
+      ? `tag "${config.tag}" has the highest version; marking as latest`
+      : `tag "${config.tag}" doesn't have the highest version; ` +
+          `not marking as latest`,
   );
-  for (const release of releases.data) {
-    if (release.tag_name !== config.tag) {
-      continue;
+  return highest ? "true" : "false";
+}
+
+/**
+ * Create the object the tag ref should point to: a tag object for annotated
+ * tags, or the target commit itself for lightweight tags.
+ * @returns the SHA of the object
+ */
+async function createTagObject(
+  github: ReturnType<typeof getOctokit>,
+  config: Config & { targetSha: string },
+): Promise<string> {
+  if (config.tagType === TagType.Lightweight) {
+    return config.targetSha;
+  }
+
+  // A tag object that was created despite an error isn't referenced by
+  // anything, so it's harmless to create another one.
+  const tag = await withReconciledRetry(
+    config.retry,
+    logger,
+    async () =>
+      await github.rest.git.createTag({
+        owner: config.owner,
+        repo: config.repo,
+        tag: config.tag,
+        message: config.tagMessage,
+        object: config.targetSha,
+        type: "commit",
+        tagger: config.tagger,
+      }),
+    async () => undefined,
+  );
+  logger.debug("created tag object", {
+    tag,
+  });
+  return tag.data.sha;
+}
+
+/**
+ * Look up the tag ref, to find out whether a request creating it took effect.
+ * @returns the ref if it points to the given object, or undefined otherwise
+ */
+async function findTagRef(
+  github: ReturnType<typeof getOctokit>,
+  config: Config,
+  sha: string,
+): Promise<{ data: GitRef } | undefined> {
+  try {
+    const ref = await github.rest.git.getRef({
+      owner: config.owner,
+      repo: config.repo,
+      ref: `tags/${config.tag}`,
+    });
+    return ref.data.object.sha === sha ? ref : undefined;
+  } catch (err) {
+    if (isHttpError(err) && err.status === 404) {
+      return undefined;
     }
-    const releaseId = release.id;
-    logger.debug(`deleting release id ${releaseId}`);
-    await github.rest.repos.deleteRelease({
+    throw err;
+  }
+}
+
+/**
+ * Look up the release for the tag, to find out whether a request creating it
+ * took effect. Apart from the stale releases, which are set aside until the
+ * release is published, a release for the tag can only be the one that was
+ * requested.
+ */
+async function findCreatedRelease(
+  github: ReturnType<typeof getOctokit>,
+  config: Config,
+  staleReleases: Release[],
+): Promise<{ data: Release } | undefined> {
+  const staleIds = new Set(staleReleases.map((release) => release.id));
+  const releases = await listReleases(github, config.owner, config.repo);
+  const release = findReleasesForTag(releases, config.tag).find(
+    (release) => !staleIds.has(release.id),
+  );
+  return release != null ? { data: release } : undefined;
+}
+
+/**
+ * Find out which release is marked as the latest release of the repository.
+ * @returns the ID of the release, or undefined if there is none
+ */
+async function getLatestReleaseId(
+  github: ReturnType<typeof getOctokit>,
+  config: Config,
+): Promise<number | undefined> {
+  try {
+    const latest = await github.rest.repos.getLatestRelease({
       owner: config.owner,
       repo: config.repo,
-      release_id: releaseId,
     });
+    return latest.data.id;
+  } catch (err) {
+    if (isHttpError(err) && err.status === 404) {
+      return undefined;
+    }
+    throw err;
   }
+}
 
-  let undoTag;
-  const existingTagSha = existingTag?.data.object.sha;
-  if (config.strategy === Strategy.UseExistingTag) {
-    undoTag = async function (): Promise<void> {
-      /* no-op */
-    };
-  } else {
+interface PublishState {
+  makeLatest?: "true" | "false" | "legacy";
+  staleReleases: Release[];
+  existingRelease?: Release;
+  existingTagSha?: string;
+  files: ResolvedFile[];
+}
+
+async function deleteRelease(
+  github: ReturnType<typeof getOctokit>,
+  config: Config,
+  release: Release,
+): Promise<void> {
+  logger.debug(`deleting release id ${release.id}`);
+  try {
+    await github.rest.repos.deleteRelease({
+      owner: config.owner,
+      repo: config.repo,
+      release_id: release.id,
+    });
+  } catch (err) {
+    throw wrapApiError(`failed to delete release id ${release.id}`, err);
+  }
+}
+
+interface ReplacedAsset {
+  id: number;
+  name: string;
+}
+
+interface PublishResult {
+  releaseId: number;
+  htmlUrl: string;
+  uploadUrl: string;
+  tagSha?: string;
+  assets: UploadedAsset[];
+  replacedAssets: ReplacedAsset[];
+}
+
+/**
+ * Apply the changes required to publish the release, recording how to
+ * revert each of them in the journal.
+ */
+async function publish(
+  github: ReturnType<typeof getOctokit>,
+  config: Config,
+  journal: Journal,
+  report: ReportRelease,
+  {
+    makeLatest,
+    staleReleases,
+    existingRelease,
+    existingTagSha,
+    files,
+  }: PublishState,
+): Promise<PublishResult> {
+  // Only one published release can be associated with a tag, so the stale
+  // releases are demoted to drafts to make way for the new one. They are
+  // only deleted once every release has been published, so that they can
+  // still be restored (along with their assets) on rollback.
+  for (const release of staleReleases) {
+    if (release.draft) {
+      continue;
+    }
+
+    const releaseId = release.id;
+    logger.debug(`demoting stale release id ${releaseId} to a draft`);
+    try {
+      await github.rest.repos.updateRelease({
+        owner: config.owner,
+        repo: config.repo,
+        release_id: releaseId,
+        draft: true,
+      });
+    } catch (err) {
+      throw wrapApiError(`failed to demote release id ${releaseId}`, err);
+    }
+    journal.record(`demoted release id ${releaseId} to a draft`, async () => {
+      await github.rest.repos.updateRelease({
+        owner: config.owner,
+        repo: config.repo,
+        release_id: releaseId,
+        draft: false,
+      });
+    });
+  }
+
+  let tagSha = existingTagSha;
+  if (config.strategy !== Strategy.UseExistingTag) {
     if (existingTagSha != null) {
       try {
         logger.info("attempting to update existing tag");
+        tagSha = await createTagObject(github, config);
         await github.rest.git.updateRef({
           owner: config.owner,
           repo: config.repo,
           ref: `tags/${config.tag}`,
-          sha: config.targetSha,
+          sha: tagSha,
           force: true,
         });
-        undoTag = async (): Promise<void> => {
+        logger.info("successfully updated tag");
+      } catch (err) {
+        throw wrapApiError("failed to update existing tag", err);
+      }
+      journal.record(
+        `moved tag "${config.tag}" from ${existingTagSha} to ${tagSha}`,
+        async () => {
           await github.rest.git.updateRef({
             owner: config.owner,
             repo: config.repo,
             ref: `tags/${config.tag}`,
             sha: existingTagSha,
+            force: true,
           });
-        };
-        logger.info("successfully updated tag");
-      } catch (err) {
-        throw new ActionError("failed to update existing tag", err);
-      }
+        },
+      );
     } else {
       try {
         logger.info("creating tag");
-        const tag = await github.rest.git.createTag({
-          owner: config.owner,
-          repo: config.repo,
-          tag: config.tag,
-          message: config.tagMessage,
-          object: config.targetSha,
-          type: "commit",
-        });
-        logger.debug("created tag", {
-          tag,
-        });
+        tagSha = await createTagObject(github, config);
 
         logger.info("creating tag ref");
         // FIXME: for some reason GitHub refuses to create tag refs for
         // anything that isn't the latest commit. Maybe I'm missing something
         // but who knows...
-        const tagRef = await github.rest.git.createRef({
-          owner: config.owner,
-          repo: config.repo,
-          ref: `refs/tags/${config.tag}`,
-          sha: config.targetSha,
-        });
+        const objectSha = tagSha;
+        const tagRef = await withReconciledRetry(
+          config.retry,
+          logger,
+          async () =>
+            await github.rest.git.createRef({
+              owner: config.owner,
+              repo: config.repo,
+              ref: `refs/tags/${config.tag}`,
+              sha: objectSha,
+            }),
+          async () => await findTagRef(github, config, objectSha),
+        );
         logger.debug("created tag ref", {
           tagRef,
         });
 
-        undoTag = async (): Promise<void> => {
-          await github.rest.git.deleteRef({
-            owner: config.owner,
-            repo: config.repo,
-            ref: `refs/tags/${config.tag}`,
-          });
-        };
-
         logger.info("successfully created tag");
       } catch (err) {
-        throw new ActionError("failed to create tag", err);
+        throw wrapApiError("failed to create tag", err);
       }
+      journal.record(`created tag "${config.tag}"`, async () => {
+        await github.rest.git.deleteRef({
+          owner: config.owner,
+          repo: config.repo,
+          ref: `tags/${config.tag}`,
+        });
+      });
     }
   }
 
   let release;
-  try {
-    logger.info("creating release");
-    release = await github.rest.repos.createRelease({
-      owner: config.owner,
-      repo: config.repo,
-      name: config.title,
-      body: config.body,
-      tag_name: config.tag,
-      discussion_category_name: config.discussionCategoryName,
-      prerelease: config.prerelease,
-      draft: config.draft,
+  if (
+    existingRelease != null &&
+    config.strategy === Strategy.UpdateExistingRelease
+  ) {
+    let latestId: number | undefined;
+    try {
+      latestId = await getLatestReleaseId(github, config);
+      logger.info(`updating existing release (id ${existingRelease.id})`);
+      release = await github.rest.repos.updateRelease({
+        owner: config.owner,
+        repo: config.repo,
+        release_id: existingRelease.id,
+        name: config.title,
+        body: config.body,
+        tag_name: config.tag,
+        target_commitish: config.targetSha,
+        discussion_category_name: config.discussionCategoryName,
+        prerelease: config.prerelease,
+        draft: config.draft,
+        make_latest: makeLatest,
+      });
+      logger.info(`updated release (id ${release.data.id})`);
+      report.updatedRelease = release.data.id;
+    } catch (err) {
+      throw wrapApiError("failed to update release", err);
+    }
+    const previous = existingRelease;
+    journal.record(`updated release id ${previous.id}`, async () => {
+      await github.rest.repos.updateRelease({
+        owner: config.owner,
+        repo: config.repo,
+        release_id: previous.id,
+        name: previous.name ?? undefined,
+        body: previous.body ?? undefined,
+        tag_name: previous.tag_name,
+        target_commitish: previous.target_commitish,
+        prerelease: previous.prerelease,
+        draft: previous.draft,
+        make_latest: latestId === previous.id ? "true" : undefined,
+      });
+      // The update may have taken the "Latest" badge from another release.
+      if (latestId != null && latestId !== previous.id) {
+        await github.rest.repos.updateRelease({
+          owner: config.owner,
+          repo: config.repo,
+          release_id: latestId,
+          make_latest: "true",
+        });
+      }
+      // GitHub doesn't allow unlinking a discussion from a release.
+      if (
+        config.discussionCategoryName != null &&
+        previous.discussion_url == null
+      ) {
+        logger.warn(
+          `the discussion created for release id ${previous.id} ` +
+            "could not be removed",
+        );
+      }
     });
-    logger.info(`created release (id ${release.data.id})`);
-  } catch (err) {
+  } else {
     try {
-      await undoTag();
+      logger.info("creating release");
+      release = await withReconciledRetry(
+        config.retry,
+        logger,
+        async () =>
+          await github.rest.repos.createRelease({
+            owner: config.owner,
+            repo: config.repo,
+            name: config.title,
+            body: config.body,
+            tag_name: config.tag,
+            discussion_category_name: config.discussionCategoryName,
+            prerelease: config.prerelease,
+            draft: config.draft,
+            make_latest: makeLatest,
+          }),
+        async () => await findCreatedRelease(github, config, staleReleases),
+      );
+      logger.info(`created release (id ${release.data.id})`);
     } catch (err) {
-      logger.error("failed to undo tag changes", err);
+      throw wrapApiError("failed to create release", err);
     }
-
-    throw new ActionError("failed to create release", err);
+    const createdId = release.data.id;
+    journal.record(`created release id ${createdId}`, async () => {
+      await github.rest.repos.deleteRelease({
+        owner: config.owner,
+        repo: config.repo,
+        release_id: createdId,
+      });
+    });
   }
 
   const releaseId = release.data.id;
   const releaseUploadUrl = release.data.upload_url;
 
-  for (const file of await glob(config.files)) {
-    const stats = await stat(file);
-    const name = basename(file);
-
-    logger.info(`uploading file: ${file}`);
-    const [success, err] = await runWithRetry(4, 4000, async () => {
-      // We can't overwrite assets, so remove existing ones from previous the attempt.
-      const assets = await github.rest.repos.listReleaseAssets({
+  // We can't overwrite assets, so remove the ones that would conflict
+  // with the files we're about to upload.
+  const fileNames = new Set(files.map((file) => file.name));
+  let existingAssets;
+  try {
+    existingAssets = await github.paginate(
+      github.rest.repos.listReleaseAssets,
+      {
         owner: config.owner,
         repo: config.repo,
         release_id: releaseId,
+        per_page: 100,
+      },
+    );
+  } catch (err) {
+    throw wrapApiError("failed to list release assets", err);
+  }
+  // Asset names are unique within a release, so the assets being replaced
+  // are renamed out of the way. They are only deleted once every release has
+  // been published, so that they can still be restored on rollback.
+  const replacedAssets: ReplacedAsset[] = [];
+  for (const asset of existingAssets) {
+    if (!fileNames.has(asset.name)) {
+      continue;
+    }
+
+    const { id, name } = asset;
+    logger.debug(`renaming existing asset: ${name}`);
+    try {
+      await github.rest.repos.updateReleaseAsset({
+        owner: config.owner,
+        repo: config.repo,
+        asset_id: id,
+        name: `${name}.replaced-${id}`,
       });
-      for (const asset of assets.data) {
-        if (asset.name === name) {
-          logger.debug(
-            `deleting existing asset from previous attempt: ${name}`,
-          );
-          await github.rest.repos.deleteReleaseAsset({
-            owner: config.owner,
-            repo: config.repo,
-            asset_id: asset.id,
-          });
+    } catch (err) {
+      throw wrapApiError(`failed to rename existing asset: ${name}`, err);
+    }
+    journal.record(`renamed existing asset "${name}"`, async () => {
+      await github.rest.repos.updateReleaseAsset({
+        owner: config.owner,
+        repo: config.repo,
+        asset_id: id,
+        name,
+      });
+    });
+    replacedAssets.push({ id, name });
+  }
+
+  const uploaded: UploadedAsset[] = [];
+  const progress = new UploadProgress(logger);
+  const progressInterval = setInterval(() => progress.report(), 10000);
+  try {
+    await forEachConcurrent(
+      files,
+      config.uploadConcurrency,
+      async (file, i) => {
+        uploaded[i] = await uploadFile(github, config, journal, progress, {
+          file,
+          releaseId,
+          releaseUploadUrl,
+          isNewRelease: existingRelease == null,
+        });
+      },
+    );
+  } finally {
+    clearInterval(progressInterval);
+  }
+  progress.summarize();
+
+  return {
+    releaseId,
+    htmlUrl: release.data.html_url,
+    uploadUrl: releaseUploadUrl,
+    tagSha,
+    assets: uploaded,
+    replacedAssets,
+  };
+}
+
+/**
+ * Delete the stale releases set aside while publishing a release. The
+ * release is already published at this point, so failures are only reported.
+ */
+async function deleteStaleReleases(
+  github: ReturnType<typeof getOctokit>,
+  config: Config,
+  report: ReportRelease,
+  releases: Release[],
+): Promise<void> {
+  for (const release of releases) {
+    try {
+      await deleteRelease(github, config, release);
+      report.deletedReleases.push(release.id);
+    } catch (err) {
+      logger.warn(err instanceof Error ? err.message : "unknown error", {
+        error: err instanceof ActionError ? err[INNER_ERROR] : err,
+      });
+    }
+  }
+}
+
+/**
+ * Delete the assets replaced while publishing a release. The release is
+ * already published at this point, so failures are only reported.
+ */
+async function deleteReplacedAssets(
+  github: ReturnType<typeof getOctokit>,
+  config: Config,
+  assets: ReplacedAsset[],
+): Promise<void> {
+  for (const asset of assets) {
+    logger.debug(`deleting replaced asset: ${asset.name}`);
+    try {
+      await github.rest.repos.deleteReleaseAsset({
+        owner: config.owner,
+        repo: config.repo,
+        asset_id: asset.id,
+      });
+    } catch (err) {
+      logger.warn(
+        `failed to delete replaced asset "${asset.name}" (id ${asset.id})`,
+        { error: err },
+      );
+    }
+  }
+}
+
+interface UploadedAsset {
+  id: number;
+  name: string;
+  size: number;
+  browser_download_url: string;
+}
+
+interface UploadTarget {
+  file: ResolvedFile;
+  releaseId: number;
+  releaseUploadUrl: string;
+  isNewRelease: boolean;
+}
+
+async function deletePartialUpload(
+  github: ReturnType<typeof getOctokit>,
+  config: Config,
+  releaseId: number,
+  name: string,
+): Promise<void> {
+  const assets = await github.paginate(github.rest.repos.listReleaseAssets, {
+    owner: config.owner,
+    repo: config.repo,
+    release_id: releaseId,
+    per_page: 100,
+  });
+  for (const asset of assets) {
+    if (asset.name === name) {
+      logger.debug(`deleting existing asset from previous attempt: ${name}`);
+      await github.rest.repos.deleteReleaseAsset({
+        owner: config.owner,
+        repo: config.repo,
+        asset_id: asset.id,
+      });
+    }
+  }
+}
+
+async function uploadFile(
+  github: ReturnType<typeof getOctokit>,
+  config: Config,
+  journal: Journal,
+  progress: UploadProgress,
+  { file, releaseId, releaseUploadUrl, isNewRelease }: UploadTarget,
+): Promise<UploadedAsset> {
+  const { path, name, size, label, contentType } = file;
+  logger.info(`uploading file: ${path}`);
+  try {
+    // Only the upload itself is retried here: the client already retries
+    // the other requests, but not the ones whose body is a stream.
+    return await withRetry(config.retry, logger, async (attempt) => {
+      // We can't overwrite assets, so remove the partial upload left behind
+      // by the previous attempt.
+      if (attempt > 0) {
+        try {
+          await deletePartialUpload(github, config, releaseId, name);
+        } catch (err) {
+          throw wrapApiError(`failed to delete partial upload: ${name}`, err);
         }
       }
 
       const headers = {
-        "content-length": stats.size,
-        "content-type": "application/octet-stream",
+        "content-length": size,
+        "content-type": contentType,
       };
-      const data = createReadStream(file);
-      await github.rest.repos.uploadReleaseAsset({
+      progress.start(name, size);
+      const data = createReadStream(path);
+      data.on("data", (chunk) => progress.update(name, chunk.length));
+      const asset = await github.rest.repos.uploadReleaseAsset({
         // @ts-expect-error: if only they could get their types right...
         data,
         headers,
         name,
+        label,
         url: releaseUploadUrl,
       });
+      progress.finish(name);
+
+      // Assets of a newly created release go away along with it; only
+      // assets added to a release that existed beforehand need reverting.
+      if (!isNewRelease) {
+        const assetId = asset.data.id;
+        journal.record(`uploaded asset "${name}"`, async () => {
+          await github.rest.repos.deleteReleaseAsset({
+            owner: config.owner,
+            repo: config.repo,
+            asset_id: assetId,
+          });
+        });
+      }
+
+      return {
+        id: asset.data.id,
+        name: asset.data.name,
+        size: asset.data.size,
+        browser_download_url: asset.data.browser_download_url,
+      };
     });
+  } catch (err) {
+    if (err instanceof ActionError) {
+      throw err;
+    }
+    throw wrapApiError(`failed to upload file: ${path}`, err);
+  }
+}
 
-    if (!success) {
-      logger.info(`exceeded upload retry limit; deleting release`);
+interface ReleasePlan {
+  config: Config;
+  report: ReportRelease;
+  releases: Release[];
+  staleReleases: Release[];
+  existingRelease?: Release;
+  existingTagSha?: string;
+  makeLatest?: "true" | "false" | "legacy";
+  tagAction: TagAction;
+  targetSha?: string;
+  publishedRelease: { tag_name: string; draft: boolean; prerelease: boolean };
+}
 
-      try {
-        await github.rest.repos.deleteRelease({
-          owner: config.owner,
-          repo: config.repo,
-          release_id: releaseId,
-        });
-      } catch (err) {
-        logger.error("failed to delete release", err);
+/**
+ * Work out the changes required to publish the release to a repository,
+ * without making any of them.
+ */
+async function planRelease(
+  github: ReturnType<typeof getOctokit>,
+  config: Config,
+  report: ReportRelease,
+): Promise<ReleasePlan> {
+  let existingTag;
+  try {
+    logger.info(`checking if tag already exists in ${report.repository}`);
+    existingTag = await github.rest.git.getRef({
+      owner: config.owner,
+      repo: config.repo,
+      ref: `tags/${config.tag}`,
+    });
+  } catch (err) {
+    if (isHttpError(err)) {
+      if (err.status !== 404) {
+        throw wrapApiError("failed to verify if tag already exists", err);
       }
+    } else {
+      throw new ActionError(
+        "failed to verify if tag already exists (unknown error)",
+        err,
+      );
+    }
+  }
 
-      try {
-        await undoTag();
-      } catch (err) {
-        logger.error("failed to undo tag changes", err);
+  if (existingTag != null && config.strategy === Strategy.FailFast) {
+    throw new ActionError(`tag already exists in ${report.repository}`);
+  }
+
+  let releases;
+  try {
+    releases = await listReleases(github, config.owner, config.repo);
+  } catch (err) {
+    throw wrapApiError("failed to list existing releases", err);
+  }
+  let staleReleases = findReleasesForTag(releases, config.tag);
+  const makeLatest = resolveMakeLatest(config, releases);
+
+  // Releases are listed newest first; the most recent one gets updated in
+  // place and any other release associated with the tag is deleted.
+  let existingRelease;
+  if (config.strategy === Strategy.UpdateExistingRelease) {
+    [existingRelease, ...staleReleases] = staleReleases;
+  }
+
+  const existingTagSha = existingTag?.data.object.sha;
+  let tagAction: TagAction;
+  if (config.strategy === Strategy.UseExistingTag) {
+    tagAction = "keep";
+  } else if (existingTagSha != null) {
+    tagAction = "update";
+  } else {
+    tagAction = "create";
+  }
+
+  let targetSha;
+  if (config.strategy === Strategy.UseExistingTag) {
+    targetSha = await resolveTagCommit(
+      github,
+      config.owner,
+      config.repo,
+      config.tag,
+    );
+  } else {
+    targetSha = config.targetSha;
+  }
+  report.targetSha = targetSha;
+
+  return {
+    config,
+    report,
+    releases,
+    staleReleases,
+    existingRelease,
+    existingTagSha,
+    makeLatest,
+    tagAction,
+    targetSha,
+    publishedRelease: {
+      tag_name: config.tag,
+      draft: config.draft,
+      prerelease: config.prerelease,
+    },
+  };
+}
+
+function getBranch(): string | undefined {
+  // Set for pull requests, where GITHUB_REF points at the merge ref.
+  const headRef = process.env["GITHUB_HEAD_REF"];
+  if (headRef) {
+    return headRef;
+  }
+
+  const ref = process.env["GITHUB_REF"];
+  if (ref?.startsWith("refs/heads/")) {
+    return ref.slice("refs/heads/".length);
+  }
+  return undefined;
+}
+
+async function loadInputsFromConfigFile(): Promise<void> {
+  const path = getInput("config-file");
+  if (path == null) {
+    return;
+  }
+
+  const values = await loadConfigFile(path, {
+    tag: getInput("tag"),
+    branch: getBranch(),
+  });
+  setFallbackInputs(values);
+}
+
+async function run(report: Report): Promise<void> {
+  await loadInputsFromConfigFile();
+
+  const previewLength =
+    getIntegerInput("log-preview-length") ?? DEFAULT_PREVIEW_LENGTH;
+  if (previewLength < 0) {
+    throw new InvalidInputParameterValueError(
+      "log-preview-length",
+      previewLength.toString(),
+    );
+  }
+  redactor.configure(
+    getListInput("redact-keys") ?? DEFAULT_REDACTED_KEYS,
+    previewLength,
+  );
+  configureLogger(logger, {
+    level: getEnumInput("log-level", LOG_LEVEL_NAMES),
+    file: getInput("log-file"),
+  });
+
+  const [github, configs] = await init();
+  logger.info("initialized", {
+    configs,
+  });
+  const [primaryConfig] = configs;
+  report.tag = primaryConfig.tag;
+  report.strategy = primaryConfig.strategy;
+  report.dryRun = primaryConfig.dryRun;
+
+  // Every repository is checked before any of them is modified.
+  const plans = [];
+  for (const config of configs) {
+    const reportRelease = createReportRelease(
+      `${config.owner}/${config.repo}`,
+      config.title,
+    );
+    report.releases.push(reportRelease);
+    plans.push(await planRelease(github, config, reportRelease));
+  }
+
+  const files = await resolveFiles(
+    primaryConfig.files,
+    primaryConfig.ifNoFilesFound,
+    logger,
+  );
+  assertUniqueNames(files);
+  if (primaryConfig.checksums.length > 0 && files.length > 0) {
+    const manifests = await addChecksums(files, primaryConfig.checksums);
+    setOutput(
+      "checksums",
+      JSON.stringify(
+        Object.fromEntries(files.map((file) => [file.name, file.digests])),
+      ),
+    );
+    files.push(...manifests);
+    assertUniqueNames(files);
+  }
+
+  if (primaryConfig.dryRun) {
+    report.assets = files;
+    const dryRunPlans = plans.map(({ config, ...plan }): Plan => {
+      plan.report.tagOutcome = `${TAG_OUTCOMES[plan.tagAction]} (planned)`;
+
+      let pruneReleases;
+      if (config.prune != null) {
+        pruneReleases = selectReleasesToPrune(
+          plan.releases,
+          plan.publishedRelease,
+          config.prune,
+        ).map((release) => ({
+          id: release.id,
+          name: release.name,
+          draft: release.draft,
+        }));
       }
 
-      throw new ActionError(`failed to upload file: ${file}`, err);
+      return {
+        repository: plan.report.repository,
+        tag: config.tag,
+        existingTagSha: plan.existingTagSha,
+        strategy: config.strategy,
+        tagAction: plan.tagAction,
+        tagType: config.tagType,
+        makeLatest: plan.makeLatest,
+        targetSha: plan.targetSha,
+        updateRelease:
+          plan.existingRelease != null
+            ? {
+                id: plan.existingRelease.id,
+                name: plan.existingRelease.name,
+                draft: plan.existingRelease.draft,
+              }
+            : undefined,
+        deleteReleases: plan.staleReleases.map((release) => ({
+          id: release.id,
+          name: release.name,
+          draft: release.draft,
+        })),
+        files,
+        pruneReleases,
+      };
+    });
+    logger.info("dry run enabled; no changes will be made", {
+      plans: dryRunPlans,
+    });
+    setOutput("plan", JSON.stringify(dryRunPlans[0]));
+    setOutput("plans", JSON.stringify(dryRunPlans));
+    return;
+  }
+
+  // The releases are published all-or-nothing: if publishing to any of the
+  // repositories fails, the changes made to all of them are rolled back.
+  const journal = new Journal(logger);
+  const results: PublishResult[] = [];
+  try {
+    for (const plan of plans) {
+      const { config } = plan;
+      logger.info(`publishing release to ${plan.report.repository}`);
+      results.push(
+        await publish(
+          github,
+          config,
+          configs.length > 1 ? journal.scoped(plan.report.repository) : journal,
+          plan.report,
+          {
+            makeLatest: plan.makeLatest,
+            staleReleases: plan.staleReleases,
+            existingRelease: plan.existingRelease,
+            existingTagSha: plan.existingTagSha,
+            files,
+          },
+        ),
+      );
     }
+  } catch (err) {
+    logger.error("failed to publish release; rolling back changes");
+    report.rollback = await journal.unwind();
+    throw err;
+  }
+
+  for (const [i, plan] of plans.entries()) {
+    await deleteStaleReleases(
+      github,
+      plan.config,
+      plan.report,
+      plan.staleReleases,
+    );
+    await deleteReplacedAssets(github, plan.config, results[i].replacedAssets);
+  }
+
+  const published = plans.map((plan, i) => {
+    const result = results[i];
+    plan.report.htmlUrl = result.htmlUrl;
+    plan.report.tagOutcome = TAG_OUTCOMES[plan.tagAction];
+    return {
+      repository: plan.report.repository,
+      "release-id": result.releaseId,
+      "html-url": result.htmlUrl,
+      "upload-url": result.uploadUrl,
+      "tag-sha": result.tagSha,
+      "target-sha": plan.targetSha,
+      created: TAG_OUTCOMES[plan.tagAction],
+      assets: result.assets,
+    };
+  });
+
+  const [primary] = published;
+  report.assets = results[0].assets.map((asset, i) => ({
+    name: asset.name,
+    size: asset.size,
+    browserDownloadUrl: asset.browser_download_url,
+    digests: files[i].digests,
+  }));
+
+  setOutput("release-id", primary["release-id"]);
+  setOutput("html-url", primary["html-url"]);
+  setOutput("upload-url", primary["upload-url"]);
+  if (primary["tag-sha"] != null) {
+    setOutput("tag-sha", primary["tag-sha"]);
+  }
+  if (primary["target-sha"] != null) {
+    setOutput("target-sha", primary["target-sha"]);
   }
+  setOutput("created", primary.created);
+  setOutput("assets", JSON.stringify(primary.assets));
+  setOutput("releases", JSON.stringify(published));
 
-  setOutput("release-id", releaseId);
+  for (const { config, ...plan } of plans) {
+    if (config.prune == null) {
+      continue;
+    }
+
+    // The release is already published, so a failure to prune doesn't fail
+    // the run; it is reported as a warning instead.
+    logger.info(`applying retention policy to ${plan.report.repository}`);
+    let releases;
+    try {
+      releases = await listReleases(github, config.owner, config.repo);
+    } catch (err) {
+      logger.warn("failed to list existing releases; skipping pruning", {
+        error: err,
+      });
+      plan.report.pruneFailed = true;
+      continue;
+    }
+    await prune(
+      github,
+      { ...config, prune: config.prune },
+      plan.report,
+      selectReleasesToPrune(releases, plan.publishedRelease, config.prune),
+    );
+  }
 }
 
 /**
- * Run and retry a function until it succeeds, using truncated
- * exponential backoff.
- * @param attempts the maximum number of attempts
- * @param maxDelay the maximum backoff delay
- * @param f the function to run
- * @param onError a function called when an error is caught
+ * Delete the releases (and optionally their tags) that exceed the retention
+ * policy. Every release is attempted even if some of them fail.
  */
-async function runWithRetry(
-  attempts: number,
-  maxDelay: number,
-  f: () => Promise<void>,
-): Promise<[boolean, unknown]> {
-  for (let i = 0; i < attempts; i++) {
+async function prune(
+  github: ReturnType<typeof getOctokit>,
+  config: Config & { prune: PruneOptions },
+  report: ReportRelease,
+  releases: Release[],
+): Promise<void> {
+  let failures = 0;
+  for (const release of releases) {
+    logger.info(
+      `pruning release id ${release.id} (tag "${release.tag_name}", ` +
+        `created at ${release.created_at})`,
+    );
     try {
-      await f();
-      return [true, undefined];
+      await deleteRelease(github, config, release);
+      report.prunedReleases.push(release.id);
     } catch (err) {
-      if (i === attempts - 1) {
-        return [false, err];
-      }
+      logger.warn(err instanceof Error ? err.message : "unknown error", {
+        error: err instanceof ActionError ? err[INNER_ERROR] : err,
+      });
+      failures++;
+      continue;
+    }
 
-      const delay = Math.min(
-        Math.round((Math.pow(2, i) + Math.random()) * 1000),
-        maxDelay,
-      );
-      logger.info(`trying again in ${delay}ms`);
-      await sleep(delay);
+    if (!config.prune.deleteTags || release.tag_name === config.tag) {
+      continue;
+    }
+
+    logger.info(`deleting tag "${release.tag_name}"`);
+    try {
+      await github.rest.git.deleteRef({
+        owner: config.owner,
+        repo: config.repo,
+        ref: `tags/${release.tag_name}`,
+      });
+    } catch (err) {
+      // Drafts don't have a tag until they're published.
+      if (isHttpError(err) && (err.status === 404 || err.status === 422)) {
+        logger.debug(`tag "${release.tag_name}" doesn't exist`);
+        continue;
+      }
+      logger.warn(`failed to delete tag "${release.tag_name}"`, {
+        error: err,
+      });
+      failures++;
     }
   }
 
-  throw unreachable();
+  if (failures > 0) {
+    logger.warn(`failed to prune ${failures} release(s)`);
+    report.pruneFailed = true;
+  }
 }
 
-try {
-  await run();
-} catch (err) {
-  if (err instanceof ActionError) {
-    logger.error(err.message, {
-      error: err[INNER_ERROR],
-    });
-  } else {
-    logger.error("unhandled error", {
+async function writeJobSummary(report: Report, error?: unknown): Promise<void> {
+  try {
+    await writeSummary(report, error);
+  } catch (err) {
+    logger.debug("failed to write job summary", {
       error: err,
     });
   }
+}
+
+/**
+ * Run the release, then exit with a non-zero code if it failed.
+ * @param transport the transport the logs are written to
+ */
+export async function main(transport: WinstonTransport): Promise<void> {
+  logger.add(transport);
+
+  const report = createReport();
+  try {
+    await run(report);
+    await writeJobSummary(report);
+  } catch (err) {
+    if (err instanceof GitHubApiError) {
+      logger.error(err.message, {
+        error: err[INNER_ERROR],
+      });
+      logger.error(err.hint, { title: err.title });
+    } else if (err instanceof ActionError) {
+      logger.error(err.message, {
+        error: err[INNER_ERROR],
+      });
+    } else {
+      logger.error("unhandled error", {
+        error: err,
+      });
+    }
 
-  process.exit(1);
+    await writeJobSummary(report, err);
+    process.exit(1);
+  }
 }
@@ -0,0 +1,73 @@
+import type winston from "winston";
+
+interface FileProgress {
+  sent: number;
+  total: number;
+}
+
+/**
+ * Tracks the progress of concurrent uploads so that it can be reported
+ * periodically.
+ */
+export class UploadProgress {
+  files: Map<string, FileProgress>;
+  logger: winston.Logger;
+  startTime: number;
+  totalBytes: number;
+  fileCount: number;
+
+  constructor(logger: winston.Logger) {
+    this.files = new Map();
+    this.logger = logger;
+    this.startTime = Date.now();
+    this.totalBytes = 0;
+    this.fileCount = 0;
+  }
+
+  /**
+   * Start tracking an upload attempt. Restarting an upload resets its
+   * progress.
+   */
+  start(name: string, total: number): void {
+    this.files.set(name, { sent: 0, total });
+  }
+
+  update(name: string, bytes: number): void {
+    const progress = this.files.get(name);
+    if (progress != null) {
+      progress.sent += bytes;
+    }
+  }
+
+  finish(name: string): void {
+    const progress = this.files.get(name);
+    if (progress != null) {
+      this.files.delete(name);
+      this.totalBytes += progress.total;
+      this.fileCount++;
+    }
+  }
+
+  /**
+   * Log the progress of every upload that is in flight.
+   */
+  report(): void {
+    for (const [name, { sent, total }] of this.files) {
+      const percent = total > 0 ? Math.floor((sent / total) * 100) : 100;
+      this.logger.info(
+        `uploading ${name}: ${sent}/${total} bytes (${percent}%)`,
+      );
+    }
+  }
+
+  /**
+   * Log the total amount of data uploaded and the time it took.
+   */
+  summarize(): void {
+    const seconds = ((Date.now() - this.startTime) / 1000).toFixed(1);
+    this.logger.info(
+      `uploaded ${this.fileCount} file(s) (${this.totalBytes} bytes) ` +
+        `in ${seconds}s`,
+    );
+  }
+}
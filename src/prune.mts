@@ -0,0 +1,99 @@
+import unreachable from "./unreachable.mts";
+
+export enum PruneInclude {
+  Drafts = "drafts",
+  Prereleases = "prereleases",
+  All = "all",
+}
+
+export interface PruneOptions {
+  pattern: RegExp;
+  keep: number;
+  include: PruneInclude[];
+  deleteTags: boolean;
+}
+
+interface PrunableRelease {
+  tag_name: string;
+  draft: boolean;
+  prerelease: boolean;
+  created_at: string;
+}
+
+/**
+ * Parse a tag pattern: either a regular expression delimited by slashes
+ * (e.g. `/^nightly-\d+$/`), or a glob where `*` matches any sequence of
+ * characters and `?` matches a single character.
+ * @returns `undefined` if the pattern isn't a valid regular expression
+ */
+export function parseTagPattern(pattern: string): RegExp | undefined {
+  const regex = pattern.match(/^\/(.*)\/$/);
+  try {
+    if (regex != null) {
+      return new RegExp(regex[1]);
+    }
+
+    const source = pattern
+      .split("")
+      .map((c) => {
+        if (c === "*") return ".*";
+        if (c === "?") return ".";
+        return c.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      })
+      .join("");
+    return new RegExp(`^${source}$`);
+  } catch (_err) {
+    return undefined;
+  }
+}
+
+function isPrunable(
+  release: Omit<PrunableRelease, "created_at">,
+  options: PruneOptions,
+): boolean {
+  if (!options.pattern.test(release.tag_name)) {
+    return false;
+  }
+
+  return options.include.some((include) => {
+    switch (include) {
+      case PruneInclude.Drafts: {
+        return release.draft;
+      }
+      case PruneInclude.Prereleases: {
+        return release.prerelease;
+      }
+      case PruneInclude.All: {
+        return true;
+      }
+      default: {
+        throw unreachable();
+      }
+    }
+  });
+}
+
+/**
+ * Select the releases that exceed the retention policy, i.e. every release
+ * covered by the policy except for the most recent ones.
+ * @param releases the existing releases
+ * @param published the release that was just published, which is always
+ * kept (and counts towards the number of releases to keep)
+ * @param options the retention policy
+ */
+export function selectReleasesToPrune<T extends PrunableRelease>(
+  releases: T[],
+  published: Omit<PrunableRelease, "created_at">,
+  options: PruneOptions,
+): T[] {
+  const candidates = releases
+    .filter((release) => release.tag_name !== published.tag_name)
+    .filter((release) => isPrunable(release, options))
+    .sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at));
+
+  const keep = Math.max(
+    0,
+    options.keep - (isPrunable(published, options) ? 1 : 0),
+  );
+  return candidates.slice(keep);
+}
@@ -0,0 +1,143 @@
+import escapeRegExp from "lodash-es/escapeRegExp";
+
+import { ActionError, INNER_ERROR } from "./error.mts";
+
+const MASK = "***";
+
+export const DEFAULT_REDACTED_KEYS = [
+  "authorization",
+  "cookie",
+  "*token*",
+  "*secret*",
+  "*password*",
+];
+
+export const DEFAULT_PREVIEW_LENGTH = 200;
+
+// Properties whose text is kept in full, since truncating them would make
+// errors harder to diagnose.
+const UNTRUNCATED_KEYS = ["message", "stack"];
+
+/**
+ * Convert a key pattern to a case-insensitive regular expression, where `*`
+ * matches any sequence of characters.
+ */
+function keyPatternToRegExp(pattern: string): RegExp {
+  const source = pattern.split("*").map(escapeRegExp).join(".*");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Masks secrets and sensitive values, and shortens large values, before they
+ * end up in logs.
+ */
+export class Redactor {
+  secrets: Set<string>;
+  keyPatterns: RegExp[];
+  previewLength: number;
+
+  constructor() {
+    this.secrets = new Set();
+    this.keyPatterns = DEFAULT_REDACTED_KEYS.map(keyPatternToRegExp);
+    this.previewLength = DEFAULT_PREVIEW_LENGTH;
+  }
+
+  addSecret(value: string): void {
+    if (value !== "") {
+      this.secrets.add(value);
+    }
+  }
+
+  /**
+   * @param keyPatterns the patterns of the keys whose values are masked
+   * @param previewLength the length past which strings are shortened
+   */
+  configure(keyPatterns: string[], previewLength: number): void {
+    this.keyPatterns = keyPatterns.map(keyPatternToRegExp);
+    this.previewLength = previewLength;
+  }
+
+  /**
+   * Mask every secret found in a string.
+   */
+  maskSecrets(text: string): string {
+    for (const secret of this.secrets) {
+      text = text.split(secret).join(MASK);
+    }
+    return text;
+  }
+
+  /**
+   * Redact a value, returning a copy. Errors are copied along with their
+   * prototype so that they can still be identified.
+   * @param value the value
+   * @param key the key the value is associated with
+   */
+  redact(value: unknown, key?: string): unknown {
+    return this.redactValue(value, key, new WeakMap());
+  }
+
+  redactValue(
+    value: unknown,
+    key: string | undefined,
+    seen: WeakMap<object, unknown>,
+  ): unknown {
+    if (key != null && this.keyPatterns.some((x) => x.test(key))) {
+      return value == null ? value : MASK;
+    }
+
+    if (typeof value === "string") {
+      const text = this.maskSecrets(value);
+      if (
+        key != null &&
+        !UNTRUNCATED_KEYS.includes(key) &&
+        text.length > this.previewLength
+      ) {
+        const remaining = text.length - this.previewLength;
+        return (
+          text.slice(0, this.previewLength) + `… (${remaining} more characters)`
+        );
+      }
+      return text;
+    }
+
+    if (typeof value !== "object" || value == null) {
+      return value;
+    }
+
+    if (seen.has(value)) {
+      return seen.get(value);
+    }
+
+    if (Array.isArray(value)) {
+      const copy: unknown[] = [];
+      seen.set(value, copy);
+      for (const item of value) {
+        copy.push(this.redactValue(item, key, seen));
+      }
+      return copy;
+    }
+
+    const copy: { [key: string]: unknown } = Object.create(
+      value instanceof Error ? Object.getPrototypeOf(value) : Object.prototype,
+    );
+    seen.set(value, copy);
+    if (value instanceof Error) {
+      // These aren't enumerable, so they need to be copied explicitly.
+      copy.name = value.name;
+      copy.message = this.redactValue(value.message, "message", seen);
+      copy.stack = this.redactValue(value.stack, "stack", seen);
+    }
+    for (const [k, v] of Object.entries(value)) {
+      copy[k] = this.redactValue(v, k, seen);
+    }
+    if (value instanceof ActionError) {
+      (copy as unknown as ActionError)[INNER_ERROR] = this.redactValue(
+        value[INNER_ERROR],
+        undefined,
+        seen,
+      );
+    }
+    return copy;
+  }
+}
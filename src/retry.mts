@@ -0,0 +1,307 @@
+import { Readable } from "node:stream";
+import { setTimeout as sleep } from "node:timers/promises";
+
+import type { getOctokit } from "@actions/github";
+import type winston from "winston";
+
+import { isHttpError } from "./error.mts";
+
+export const DEFAULT_RETRY_ATTEMPTS = 4;
+export const DEFAULT_RETRY_MAX_DELAY = 60000;
+
+// GitHub recommends waiting at least a minute after hitting a secondary
+// rate limit when the response doesn't say how long to wait.
+const SECONDARY_RATE_LIMIT_DELAY = 60000;
+
+const TRANSIENT_NETWORK_ERRORS = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+];
+
+// Requests that can be sent again without changing the outcome, even if the
+// server had already handled them. GitHub's PATCH endpoints set fields to the
+// given values, so sending them twice has the same effect as sending them
+// once.
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "PATCH", "DELETE"];
+const IDEMPOTENT_ROUTES = ["/repos/{owner}/{repo}/releases/generate-notes"];
+
+export interface RetryPolicy {
+  attempts: number;
+  maxDelay: number;
+}
+
+interface RetryDelay {
+  delay: number;
+  /**
+   * Whether the delay was requested by the server, in which case retrying
+   * any sooner is pointless.
+   */
+  requested: boolean;
+  /**
+   * Whether the server rejected the request without handling it.
+   */
+  rejected: boolean;
+}
+
+type Headers = { [key: string]: string | number | undefined };
+
+function getHeaders(err: Error): Headers {
+  const response = (err as { response?: { headers?: Headers } }).response;
+  return response?.headers ?? {};
+}
+
+function getErrorMessage(err: Error): string {
+  const response = (err as { response?: { data?: { message?: unknown } } })
+    .response;
+  const message = response?.data?.message;
+  return typeof message === "string" ? message : err.message;
+}
+
+function isNetworkError(err: unknown): boolean {
+  while (err instanceof Error) {
+    const code = (err as { code?: unknown }).code;
+    if (typeof code === "string" && TRANSIENT_NETWORK_ERRORS.includes(code)) {
+      return true;
+    }
+    err = (err as { cause?: unknown }).cause;
+  }
+  return false;
+}
+
+/**
+ * Find out how long the server asked us to wait before trying again, in
+ * milliseconds.
+ */
+function getRequestedDelay(err: Error): number | undefined {
+  const headers = getHeaders(err);
+
+  const retryAfter = Number(headers["retry-after"]);
+  if (headers["retry-after"] != null && !isNaN(retryAfter)) {
+    return retryAfter * 1000;
+  }
+
+  const reset = Number(headers["x-ratelimit-reset"]);
+  if (
+    `${headers["x-ratelimit-remaining"]}` === "0" &&
+    headers["x-ratelimit-reset"] != null &&
+    !isNaN(reset)
+  ) {
+    return Math.max(0, reset * 1000 - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Decide whether a failed request may be retried, and if so, how long to wait
+ * before retrying it. Only transient failures are retried: server errors,
+ * network errors and rate limits.
+ * @param err the error the request failed with
+ * @param attempt the index of the attempt that failed
+ * @returns the delay, or undefined if the request must not be retried
+ */
+function getRetryDelay(err: unknown, attempt: number): RetryDelay | undefined {
+  const backoff = Math.round((Math.pow(2, attempt) + Math.random()) * 1000);
+
+  if (!isHttpError(err)) {
+    return isNetworkError(err)
+      ? { delay: backoff, requested: false, rejected: false }
+      : undefined;
+  }
+
+  // Octokit reports network errors as HTTP 500 errors without a response.
+  if (err.status >= 500) {
+    return { delay: backoff, requested: false, rejected: false };
+  }
+
+  if (err.status === 403 || err.status === 429) {
+    const requested = getRequestedDelay(err);
+    if (requested != null) {
+      return { delay: requested, requested: true, rejected: true };
+    }
+    if (/secondary rate limit/i.test(getErrorMessage(err))) {
+      return {
+        delay: Math.max(backoff, SECONDARY_RATE_LIMIT_DELAY),
+        requested: false,
+        rejected: true,
+      };
+    }
+    if (err.status === 429) {
+      return { delay: backoff, requested: false, rejected: true };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find out how long to wait before retrying a failed request.
+ * @returns the delay in milliseconds, or undefined if the request must not
+ * be retried
+ */
+function getPolicyDelay(
+  policy: RetryPolicy,
+  logger: winston.Logger,
+  err: unknown,
+  attempt: number,
+  idempotent: boolean,
+): number | undefined {
+  if (attempt >= policy.attempts - 1) {
+    return undefined;
+  }
+
+  const retry = getRetryDelay(err, attempt);
+  if (retry == null) {
+    return undefined;
+  }
+
+  // Sending a request that isn't idempotent again is only safe if the server
+  // didn't handle it the first time.
+  if (!idempotent && !retry.rejected) {
+    return undefined;
+  }
+
+  if (retry.requested && retry.delay > policy.maxDelay) {
+    logger.warn(
+      `not retrying: the requested delay (${retry.delay}ms) exceeds the ` +
+        `maximum retry delay (${policy.maxDelay}ms)`,
+    );
+    return undefined;
+  }
+
+  return Math.min(retry.delay, policy.maxDelay);
+}
+
+/**
+ * Run a function, retrying it according to the policy when it fails with a
+ * transient error.
+ * @param policy the retry policy
+ * @param logger the logger
+ * @param f the function to run, called with the index of the attempt
+ * @param idempotent whether `f` can safely run again after a failure that
+ * leaves unknown whether it took effect (e.g. a timeout)
+ */
+export async function withRetry<T>(
+  policy: RetryPolicy,
+  logger: winston.Logger,
+  f: (attempt: number) => Promise<T>,
+  idempotent = true,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await f(attempt);
+    } catch (err) {
+      const delay = getPolicyDelay(policy, logger, err, attempt, idempotent);
+      if (delay == null) {
+        throw err;
+      }
+
+      logger.info(
+        `request failed (attempt ${attempt + 1} of ${policy.attempts}),` +
+          ` trying again in ${delay}ms`,
+      );
+      logger.debug("request error", { error: err });
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Run a request that isn't idempotent, e.g. one that creates a resource,
+ * retrying it according to the policy.
+ *
+ * When the request fails in a way that leaves unknown whether the server
+ * handled it (a server or network error), `lookup` is called to find its
+ * outcome, and the request is only sent again if it didn't take effect.
+ * @param policy the retry policy
+ * @param logger the logger
+ * @param f the request
+ * @param lookup a function returning the outcome of the request if it took
+ * effect, or undefined otherwise
+ */
+export async function withReconciledRetry<T>(
+  policy: RetryPolicy,
+  logger: winston.Logger,
+  f: () => Promise<T>,
+  lookup: () => Promise<T | undefined>,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await f();
+    } catch (err) {
+      // Rejected requests were already retried by the client.
+      const delay = getPolicyDelay(policy, logger, err, attempt, true);
+      if (delay == null || getRetryDelay(err, attempt)?.rejected) {
+        throw err;
+      }
+
+      logger.info(
+        `request failed (attempt ${attempt + 1} of ${policy.attempts}),` +
+          ` checking whether it took effect in ${delay}ms`,
+      );
+      logger.debug("request error", { error: err });
+      await sleep(delay);
+
+      const outcome = await lookup();
+      if (outcome != null) {
+        logger.info("the request took effect despite the error");
+        return outcome;
+      }
+    }
+  }
+}
+
+/**
+ * Make every request sent by the client go through the retry policy.
+ *
+ * Requests that aren't idempotent are only retried if the server rejected
+ * them without handling them; see {@link withReconciledRetry}. Requests
+ * whose body is a stream can't be sent again, so they are left to the caller
+ * to retry. A retried DELETE request that finds nothing to delete counts as
+ * a success.
+ * @param github the client
+ * @param policy the retry policy
+ * @param logger the logger
+ */
+export function installRetryPolicy(
+  github: ReturnType<typeof getOctokit>,
+  policy: RetryPolicy,
+  logger: winston.Logger,
+): void {
+  github.hook.wrap("request", async (request, options) => {
+    if (options.data instanceof Readable) {
+      return await request(options);
+    }
+    const idempotent =
+      IDEMPOTENT_METHODS.includes(options.method) ||
+      IDEMPOTENT_ROUTES.includes(options.url);
+    return await withRetry(
+      policy,
+      logger,
+      async (attempt) => {
+        try {
+          return await request(options);
+        } catch (err) {
+          // The previous attempt went through even though it failed, e.g.
+          // because the response was lost.
+          if (
+            attempt > 0 &&
+            options.method === "DELETE" &&
+            isHttpError(err) &&
+            err.status === 404
+          ) {
+            logger.debug("the resource was deleted by a previous attempt");
+            return { status: 204, url: options.url, headers: {}, data: "" };
+          }
+          throw err;
+        }
+      },
+      idempotent,
+    );
+  });
+}
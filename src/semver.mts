@@ -0,0 +1,72 @@
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+  build: string[];
+}
+
+// https://semver.org/#is-there-a-suggested-regular-expression-regex-to-check-a-semver-string
+const SEMVER_REGEX =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+/**
+ * Parse a semantic version, optionally prefixed with `v`.
+ * @returns the parsed version, or `undefined` if it isn't a valid semver
+ */
+export function parseSemver(version: string): SemVer | undefined {
+  const match = version.replace(/^v/, "").match(SEMVER_REGEX);
+  if (match == null) {
+    return undefined;
+  }
+
+  const [, major, minor, patch, prerelease, build] = match;
+  return {
+    major: parseInt(major, 10),
+    minor: parseInt(minor, 10),
+    patch: parseInt(patch, 10),
+    prerelease: prerelease?.split(".") ?? [],
+    build: build?.split(".") ?? [],
+  };
+}
+
+function compareIdentifiers(a: string, b: string): number {
+  const aIsNumeric = /^\d+$/.test(a);
+  const bIsNumeric = /^\d+$/.test(b);
+  if (aIsNumeric && bIsNumeric) {
+    return parseInt(a, 10) - parseInt(b, 10);
+  }
+
+  // Numeric identifiers have lower precedence than alphanumeric ones.
+  if (aIsNumeric) return -1;
+  if (bIsNumeric) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compare two versions according to the semver precedence rules
+ * (build metadata is ignored).
+ * @returns a negative number if `a` < `b`, a positive number if `a` > `b`,
+ * or 0 if they have the same precedence
+ */
+export function compareSemver(a: SemVer, b: SemVer): number {
+  const diff = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (diff !== 0) {
+    return diff;
+  }
+
+  // A pre-release version has lower precedence than the associated
+  // normal version.
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+
+  const length = Math.min(a.prerelease.length, b.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const diff = compareIdentifiers(a.prerelease[i], b.prerelease[i]);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return a.prerelease.length - b.prerelease.length;
+}
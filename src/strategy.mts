@@ -2,4 +2,5 @@ export enum Strategy {
   Replace = "replace",
   FailFast = "fail-fast",
   UseExistingTag = "use-existing-tag",
+  UpdateExistingRelease = "update-existing-release",
 }
@@ -0,0 +1,200 @@
+import actionsCore from "@actions/core";
+import escape from "lodash-es/escape";
+
+import { Digests } from "./checksums.mts";
+import { ActionError, GitHubApiError, INNER_ERROR } from "./error.mts";
+import { UnwindResult } from "./journal.mts";
+
+export interface ReportAsset {
+  name: string;
+  size: number;
+  browserDownloadUrl?: string;
+  digests?: Digests;
+}
+
+/**
+ * Describes what happened to the release in one of the repositories.
+ */
+export interface ReportRelease {
+  repository: string;
+  title: string;
+  htmlUrl?: string;
+  targetSha?: string;
+  tagOutcome?: string;
+  updatedRelease?: number;
+  deletedReleases: number[];
+  prunedReleases: number[];
+  pruneFailed: boolean;
+}
+
+/**
+ * Describes what happened during a run. It is filled in as the run
+ * progresses, so that a partial report is available if it fails.
+ */
+export interface Report {
+  tag?: string;
+  strategy?: string;
+  releases: ReportRelease[];
+  assets: ReportAsset[];
+  rollback?: UnwindResult;
+  dryRun: boolean;
+}
+
+export function createReport(): Report {
+  return {
+    releases: [],
+    assets: [],
+    dryRun: false,
+  };
+}
+
+export function createReportRelease(
+  repository: string,
+  title: string,
+): ReportRelease {
+  return {
+    repository,
+    title,
+    deletedReleases: [],
+    prunedReleases: [],
+    pruneFailed: false,
+  };
+}
+
+function describeError(error: unknown): string[] {
+  const messages = [];
+  let current = error;
+  while (current != null) {
+    messages.push(current instanceof Error ? current.message : `${current}`);
+    current = current instanceof ActionError ? current[INNER_ERROR] : undefined;
+  }
+  return messages;
+}
+
+function formatSize(size: number): string {
+  const units = ["B", "KiB", "MiB", "GiB"];
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
+
+function code(text: string): string {
+  return `<code>${escape(text)}</code>`;
+}
+
+/**
+ * Write the report to the job summary.
+ * @param report the report
+ * @param error the error that made the run fail, if any
+ */
+export async function writeSummary(
+  report: Report,
+  error?: unknown,
+): Promise<void> {
+  const summary = actionsCore.summary;
+
+  if (error != null) {
+    summary.addHeading("Release failed", 2);
+    summary.addList(describeError(error).map((x) => escape(x)));
+    if (error instanceof GitHubApiError) {
+      summary.addRaw(
+        `<strong>${escape(error.title)}:</strong> ${escape(error.hint)}`,
+        true,
+      );
+    }
+  } else if (report.dryRun) {
+    summary.addHeading("Release plan (dry run)", 2);
+    summary.addRaw("No changes were made to the repository.", true);
+  } else if (report.releases.some((release) => release.pruneFailed)) {
+    summary.addHeading("Release published, pruning failed", 2);
+  } else {
+    summary.addHeading("Release published", 2);
+  }
+
+  const details = [];
+  if (report.tag != null) {
+    details.push(`Tag: ${code(report.tag)}`);
+  }
+  if (report.strategy != null) {
+    details.push(`Strategy: ${code(report.strategy)}`);
+  }
+  for (const release of report.releases) {
+    // Only mention the repository when there's more than one.
+    const where =
+      report.releases.length > 1 ? ` in ${code(release.repository)}` : "";
+    const title = escape(release.title || report.tag || "");
+    details.push(
+      release.htmlUrl != null
+        ? `Release${where}: <a href="${escape(release.htmlUrl)}">${title}</a>`
+        : `Release${where}: ${title}`,
+    );
+    if (release.targetSha != null) {
+      details.push(`Target commit${where}: ${code(release.targetSha)}`);
+    }
+    if (release.tagOutcome != null) {
+      details.push(`Tag ${release.tagOutcome}${where}`);
+    }
+    if (release.updatedRelease != null) {
+      details.push(`Updated release id ${release.updatedRelease}${where}`);
+    }
+    if (release.deletedReleases.length > 0) {
+      details.push(
+        `Deleted release(s)${where}: ${release.deletedReleases
+          .map((id) => `id ${id}`)
+          .join(", ")}`,
+      );
+    }
+    if (release.prunedReleases.length > 0) {
+      details.push(
+        `Pruned release(s)${where}: ${release.prunedReleases
+          .map((id) => `id ${id}`)
+          .join(", ")}`,
+      );
+    }
+    if (release.pruneFailed) {
+      details.push(`Pruning failed${where}; see the logs for details`);
+    }
+  }
+  if (details.length > 0) {
+    summary.addList(details);
+  }
+
+  if (report.assets.length > 0) {
+    summary.addHeading("Assets", 3);
+    summary.addTable([
+      [
+        { data: "Name", header: true },
+        { data: "Size", header: true },
+        { data: "Checksums", header: true },
+      ],
+      ...report.assets.map((asset) => [
+        asset.browserDownloadUrl != null
+          ? `<a href="${escape(asset.browserDownloadUrl)}">` +
+            `${escape(asset.name)}</a>`
+          : escape(asset.name),
+        formatSize(asset.size),
+        Object.entries(asset.digests ?? {})
+          .map(([algorithm, digest]) => `${algorithm}: ${code(digest)}`)
+          .join("<br/>"),
+      ]),
+    ]);
+  }
+
+  if (report.rollback != null) {
+    summary.addHeading("Rollback", 3);
+    const steps = [
+      ...report.rollback.reverted.map((x) => `Reverted: ${escape(x)}`),
+      ...report.rollback.failed.map((x) => `Could not revert: ${escape(x)}`),
+    ];
+    if (steps.length > 0) {
+      summary.addList(steps);
+    } else {
+      summary.addRaw("No changes had been made.", true);
+    }
+  }
+
+  await summary.write();
+}
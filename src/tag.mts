@@ -0,0 +1,10 @@
+export enum TagType {
+  Annotated = "annotated",
+  Lightweight = "lightweight",
+}
+
+export interface Tagger {
+  name: string;
+  email: string;
+  date?: string;
+}
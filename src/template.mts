@@ -0,0 +1,117 @@
+import { InputParameterError } from "./actions.mts";
+import { SemVer, parseSemver } from "./semver.mts";
+
+export interface TemplateContext {
+  tag: string;
+  version: string;
+  semver?: SemVer;
+  sha?: string;
+  shortSha?: string;
+  owner: string;
+  repo: string;
+  repository: string;
+  date: string;
+  datetime: string;
+  env: { [name: string]: string | undefined };
+}
+
+export class TemplateError extends InputParameterError {
+  constructor(name: string, message: string) {
+    super(
+      name,
+      `failed to render the template of input parameter '${name}': ${message}`,
+    );
+  }
+}
+
+// Templates are written as `{{ tag }}` or `{{ semver.major }}`. Expressions
+// are only ever looked up in the context, never evaluated, so that nothing
+// but the values of the context can end up in a release.
+const EXPRESSION_REGEX = /\{\{(.*?)\}\}/gs;
+const PATH_REGEX = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+/**
+ * Look up the value of a template expression in the context.
+ * @returns the value, or undefined if the path doesn't lead to one
+ */
+function lookup(context: TemplateContext, path: string): unknown {
+  let value: unknown = context;
+  for (const key of path.split(".")) {
+    if (
+      typeof value !== "object" ||
+      value == null ||
+      !Object.prototype.hasOwnProperty.call(value, key)
+    ) {
+      return undefined;
+    }
+    value = (value as { [key: string]: unknown })[key];
+  }
+  return value;
+}
+
+function formatValue(value: unknown): string | undefined {
+  if (typeof value === "string" || typeof value === "number") {
+    return `${value}`;
+  }
+  // Prerelease and build identifiers are written dot-separated.
+  if (Array.isArray(value)) {
+    return value.join(".");
+  }
+  return undefined;
+}
+
+export function createTemplateContext({
+  owner,
+  repo,
+  tag,
+  sha,
+  envNames,
+  now,
+}: {
+  owner: string;
+  repo: string;
+  tag: string;
+  sha?: string;
+  envNames: string[];
+  now: Date;
+}): TemplateContext {
+  return {
+    tag,
+    version: tag.replace(/^v/, ""),
+    semver: parseSemver(tag),
+    sha,
+    shortSha: sha?.slice(0, 7),
+    owner,
+    repo,
+    repository: `${owner}/${repo}`,
+    date: now.toISOString().slice(0, 10),
+    datetime: now.toISOString(),
+    env: Object.fromEntries(envNames.map((name) => [name, process.env[name]])),
+  };
+}
+
+/**
+ * Render the template supplied to an input parameter.
+ * @param name the name of the input parameter
+ * @param template the template
+ * @param context the values available to the template
+ */
+export function renderTemplate(
+  name: string,
+  template: string,
+  context: TemplateContext,
+): string {
+  return template.replace(EXPRESSION_REGEX, (_match, expression: string) => {
+    const path = expression.trim();
+    if (!PATH_REGEX.test(path)) {
+      throw new TemplateError(name, `invalid expression "${path}"`);
+    }
+    // Rendering "undefined" is never what the user wants (e.g. a typo in the
+    // name of an environment variable).
+    const value = formatValue(lookup(context, path));
+    if (value == null) {
+      throw new TemplateError(name, `unknown value "${path}"`);
+    }
+    return value;
+  });
+}
@@ -0,0 +1,172 @@
+import { exec } from "node:child_process";
+import { readFile } from "node:fs/promises";
+import { promisify } from "node:util";
+
+import {
+  InvalidInputParameterValueError,
+  getBooleanInput,
+  getEnumInput,
+  getInput,
+  getIntegerInput,
+} from "./actions.mts";
+import { ActionError } from "./error.mts";
+import unreachable from "./unreachable.mts";
+
+const execAsync = promisify(exec);
+
+export enum TextSource {
+  Literal = "literal",
+  File = "file",
+  Env = "env",
+  Command = "command",
+}
+
+/**
+ * The sources specific to the `body` input parameter.
+ */
+export enum BodySource {
+  Generate = "generate",
+  Changelog = "changelog",
+}
+
+export type Render = (
+  name: string,
+  text: string | undefined,
+) => string | undefined;
+
+export interface TextInputOptions<T extends string> {
+  /**
+   * Applied to the text obtained from the built-in sources.
+   */
+  render?: Render;
+
+  /**
+   * Sources specific to the input parameter, in addition to the built-in
+   * ones. Their text is used as-is.
+   */
+  extraSources?: Record<T, () => Promise<string | undefined>>;
+}
+
+/**
+ * Get the text of an input parameter whose source is determined by the
+ * `<name>-source` input parameter (defaults to `literal`).
+ * @param name the name of the input parameter
+ * @param options the extra sources and the renderer
+ */
+export async function getTextInput<T extends string = never>(
+  name: string,
+  { render, extraSources }: TextInputOptions<T> = {},
+): Promise<string | undefined> {
+  const extraNames = Object.keys(extraSources ?? {}) as T[];
+  const source =
+    getEnumInput(`${name}-source`, [
+      ...Object.values(TextSource),
+      ...extraNames,
+    ]) ?? TextSource.Literal;
+
+  if (extraSources != null && extraNames.includes(source as T)) {
+    return await extraSources[source as T]();
+  }
+
+  const text = await readTextSource(name, source as TextSource);
+  return render != null ? render(name, text) : text;
+}
+
+async function readTextSource(
+  name: string,
+  source: TextSource,
+): Promise<string | undefined> {
+  switch (source) {
+    case TextSource.Literal: {
+      return getInput(name, false);
+    }
+    case TextSource.File: {
+      const path = getInput(name, true);
+      const encoding = getFileEncoding();
+      try {
+        return trimText(
+          await readFile(path, {
+            encoding,
+          }),
+        );
+      } catch (err) {
+        throw new ActionError(
+          `failed to read ${name} from file "${path}"`,
+          err,
+        );
+      }
+    }
+    case TextSource.Env: {
+      const varName = getInput(name, true);
+      return process.env[varName];
+    }
+    case TextSource.Command: {
+      const command = getInput(name, true);
+      // As with command substitution in a shell, the final newline is not
+      // part of the text (e.g. `git describe`).
+      const output = await runCommand(name, command);
+      return trimText(output.replace(/\r?\n$/, ""));
+    }
+    default: {
+      throw unreachable();
+    }
+  }
+}
+
+function getFileEncoding(): BufferEncoding {
+  const encoding = getInput("text-file-encoding") ?? "utf8";
+  if (!Buffer.isEncoding(encoding)) {
+    throw new InvalidInputParameterValueError("text-file-encoding", encoding);
+  }
+  return encoding;
+}
+
+function trimText(text: string): string {
+  if (getBooleanInput("text-trim") ?? false) {
+    return text.trimEnd();
+  }
+  return text;
+}
+
+/**
+ * Run a shell command and return its standard output.
+ * @param name the name of the input parameter the command comes from
+ * @param command the command
+ */
+async function runCommand(name: string, command: string): Promise<string> {
+  const timeout = getIntegerInput("command-timeout") ?? 60;
+  if (timeout < 1) {
+    throw new InvalidInputParameterValueError(
+      "command-timeout",
+      timeout.toString(),
+    );
+  }
+
+  try {
+    const { stdout } = await execAsync(command, {
+      encoding: "utf8",
+      timeout: timeout * 1000,
+      maxBuffer: 16 * 1024 * 1024,
+    });
+    return stdout;
+  } catch (err) {
+    const { code, killed, stderr } = err as {
+      code?: number | string;
+      killed?: boolean;
+      stderr?: string;
+    };
+    let reason;
+    if (killed) {
+      reason = `timed out after ${timeout}s`;
+    } else if (typeof code === "number") {
+      reason = `exited with code ${code}`;
+    } else {
+      reason = "failed to run";
+    }
+    const details = stderr?.trim() ? `: ${stderr.trim()}` : "";
+    throw new ActionError(
+      `command for input parameter '${name}' ${reason}${details}`,
+      err,
+    );
+  }
+}